@@ -1,18 +1,47 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { Hex, LearningMap, ClassGroup, HexTemplate, CurriculumConfig, HexProgress, Course, Unit, User } from './types';
+import React, { useState, useEffect, useLayoutEffect, useRef, useMemo, useCallback } from 'react';
+import { Hex, LearningMap, ClassGroup, HexTemplate, CurriculumConfig, HexProgress, Course, Unit, User, ConnectionType, CollisionMode, MapRegion, HexFilter, MapRevision } from './types';
 
 // Services
 import { storageService } from './services/storage';
 import { getStorageMode, setStorageMode, subscribeToModeChanges, StorageMode } from './services/storage';
 import { apiService, ConnectionInfo } from './services/api';
+import { computeLockStates, ProgressMap } from './services/locking';
+import { validateMap, applyFix, ValidationIssue } from './services/validation';
+import { computeLayeredLayout, applyLayout, LayoutResult } from './services/layout';
+import { resolveDrop, findCollisions, DEFAULT_COLLISION_MODE, COLLISION_MODE_LABELS } from './services/collisions';
+import { getRecommendations } from './services/recommendations';
+import { EMPTY_HISTORY, HistoryState, recordCommand, undoCommand, redoCommand } from './services/history';
+import { MapDraft, saveDraft, getDraft, clearDraft, hasUnsavedChanges } from './services/drafts';
+import { MapConflictError, preconditionOf } from './services/conflicts';
+import { subscribeToOutbox } from './services/outbox';
+import { HEX_METRICS, Point, getHexCenter, getHexDimensions, getBasePosition, translateCells, snapToCell, cellKey, findNearestFreeCell, GridDirection, stepCell, findNearestInDirection } from './services/grid';
+import { createClipboard, writeClipboard, readClipboard, pasteHexes } from './services/clipboard';
+import { createHexFromTemplate, createTemplateFromHex } from './services/templates';
+import { createRegion, assignRegion, removeRegion } from './services/regions';
+import { EMPTY_FILTER, isFilterActive, matchesFilter } from './services/filters';
+import { getSearchFromUrl, setSearchInUrl } from './services/search';
 
 // Components
 import { HexNode } from './components/HexNode';
-import { EditorPanel } from './components/EditorPanel';
-import { StudentPanel } from './components/StudentPanel';
+import { ConnectionLayer } from './components/ConnectionLayer';
+import { ConnectionTypePopover } from './components/ConnectionTypePopover';
+import { EditorPanel, BulkEditorPanel } from './components/EditorPanel';
+import { StudentPanel, NextUpCard } from './components/StudentPanel';
+import { SimulatorPanel } from './components/SimulatorPanel';
 import { DevLogPanel } from './components/DevLogPanel';
 import { DashboardPanel } from './components/DashboardPanel';
+import { ValidationPanel } from './components/ValidationPanel';
+import { TemplatePalette, TEMPLATE_DRAG_TYPE } from './components/TemplatePalette';
+import { ZoomControls, Minimap, ViewportRect } from './components/MapViewport';
+import { DropPreview, DropPreviewCell } from './components/DropPreview';
+import { RegionLayer } from './components/RegionLayer';
+import { RegionsPanel } from './components/RegionsPanel';
+import { FilterBar } from './components/FilterBar';
+import { MapSearch } from './components/MapSearch';
+import { ConnectionStatus } from './components/ConnectionStatus';
+import { ConflictPanel } from './components/ConflictPanel';
+import { HistoryPanel } from './components/HistoryPanel';
 import { UbDPlanner } from './components/UbDPlanner';
 import { SettingsPanel } from './components/SettingsPanel';
 import { SetupWizard } from './components/SetupWizard';
@@ -24,19 +53,21 @@ import { AuthProvider, useAuth, RequireEditor } from './contexts/AuthContext';
 // Icons
 import { 
   Save, Plus, Copy, Users, Layers, 
-  PieChart, Filter, RefreshCw
+  PieChart, RefreshCw, Link2, X, ShieldCheck, Wand2, FlaskConical,
+  Undo2, Redo2, Group, History
 } from 'lucide-react';
 
-// ============================================================
-// CONSTANTS
-// ============================================================
-
-const HEX_METRICS = {
-  width: 110,     
-  height: 100,    
-  colSpacing: 88, 
-  rowSpacing: 75, 
-};
+// Map grid zoom limits and steps
+const MIN_ZOOM = 0.25;
+const MAX_ZOOM = 2;
+const ZOOM_STEP = 1.2;
+const WHEEL_ZOOM_SPEED = 0.002;
+// Margin around the hexes when fitting the map to the screen
+const FIT_PADDING = 30;
+const AUTOSAVE_DELAY_MS = 3000;
+// How long a hex found by search keeps pulsing
+const SEARCH_PULSE_MS = 1600;
+const clampZoom = (z: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, z));
 
 // ============================================================
 // MAIN APP CONTENT
@@ -63,30 +94,93 @@ const AppContent: React.FC = () => {
   const [maps, setMaps] = useState<LearningMap[]>([]);
   const [classes, setClasses] = useState<ClassGroup[]>([]);
   const [curriculum, setCurriculum] = useState<CurriculumConfig | null>(null);
+  const [templates, setTemplates] = useState<HexTemplate[]>([]);
 
   // UI state
   const [currentMap, setCurrentMap] = useState<LearningMap | null>(null);
   const [builderMode, setBuilderMode] = useState(false);
-  const [selectedHexId, setSelectedHexId] = useState<string | null>(null);
+  const [selectedHexIds, setSelectedHexIds] = useState<string[]>([]);
+  // Hex holding the grid's roving tab stop
+  const [focusedHexId, setFocusedHexId] = useState<string | null>(null);
   const [selectedClassId, setSelectedClassId] = useState<string>('');
   const [loading, setLoading] = useState(true);
   const [notification, setNotification] = useState<string | null>(null);
   const [showDevLog, setShowDevLog] = useState(false);
   const [showDashboard, setShowDashboard] = useState(false);
+  const [showValidation, setShowValidation] = useState(false);
+  const [showRegions, setShowRegions] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
   const [showBackendSetup, setShowBackendSetup] = useState(false);
   const [showSetupWizard, setShowSetupWizard] = useState(false);
   const [viewMode, setViewMode] = useState<ViewMode>('map');
   const [storageMode, setStorageModeState] = useState<StorageMode>(getStorageMode());
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [connectionInfo, setConnectionInfo] = useState<ConnectionInfo>(apiService.getConnectionInfo());
+  const [dragPositions, setDragPositions] = useState<Record<string, Point>>({});
+  // Cells the hexes being dragged would snap to if dropped now
+  const [dropTargets, setDropTargets] = useState<LayoutResult | null>(null);
+  // Rubber-band selection rectangle, in grid content coordinates
+  const [selectionBox, setSelectionBox] = useState<{ startX: number; startY: number; x: number; y: number; additive: boolean } | null>(null);
+  // Grid zoom factor, visible area and pan mode
+  const [zoom, setZoom] = useState(1);
+  const [viewport, setViewport] = useState<ViewportRect>({ x: 0, y: 0, width: 0, height: 0 });
+  const [panMode, setPanMode] = useState(false);
+  const [panStart, setPanStart] = useState<{ pointerId: number; x: number; y: number; scrollLeft: number; scrollTop: number } | null>(null);
+  const [studentProgress, setStudentProgress] = useState<ProgressMap>({});
+
+  // Connection authoring state
+  const [connectionMode, setConnectionMode] = useState(false);
+  const [connectionSourceId, setConnectionSourceId] = useState<string | null>(null);
+  const [pendingTargetId, setPendingTargetId] = useState<string | null>(null);
+
+  // Auto-arrange: proposed cells while previewing, previous cells after applying
+  const [layoutPreview, setLayoutPreview] = useState<LayoutResult | null>(null);
+
+  // Preview-as-student: a hypothetical student's progress, never persisted
+  const [simulating, setSimulating] = useState(false);
+  const [simulatedProgress, setSimulatedProgress] = useState<ProgressMap>({});
+
+  // Undo/redo for edits to currentMap; reset on save and map switch
+  const [history, setHistory] = useState<HistoryState>(EMPTY_HISTORY);
+  // Last saved (or loaded) version of the current map, for dirty tracking
+  const [savedMap, setSavedMap] = useState<LearningMap | null>(null);
+  const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'error' | 'conflict'>('idle');
+  // A save refused because someone else saved first; autosave waits until it's resolved
+  const [conflict, setConflict] = useState<{ local: LearningMap; remote: LearningMap; base: LearningMap | null } | null>(null);
+  // Unsaved edits found in localStorage when the map was opened
+  const [recoverableDraft, setRecoverableDraft] = useState<MapDraft | null>(null);
   
-  // Filter state
-  const [filters, setFilters] = useState({
-    linkedOnly: false,
-    sbar: { K: false, T: false, C: false }
-  });
+  // Highlight filter built in the filter bar
+  const [filter, setFilter] = useState<HexFilter>(EMPTY_FILTER);
+  // Map search; the query lives in the URL as well
+  const [searchQuery, setSearchQuery] = useState(getSearchFromUrl);
+  const [pulseHexId, setPulseHexId] = useState<string | null>(null);
 
   const mapGridRef = useRef<HTMLDivElement>(null);
+  const gridContentRef = useRef<HTMLDivElement>(null);
+  const currentMapRef = useRef<LearningMap | null>(null);
+  currentMapRef.current = currentMap;
+  const savedMapRef = useRef<LearningMap | null>(null);
+  savedMapRef.current = savedMap;
+  const saveInFlightRef = useRef<Promise<LearningMap> | null>(null);
+  // The map an autosave last failed on, so it isn't retried until edited again
+  const autosaveFailedRef = useRef<LearningMap | null>(null);
+  // Active touch points on the grid, and the pinch/pan gesture they form
+  const touchPointsRef = useRef(new Map<number, Point>());
+  const touchGestureRef = useRef<{
+    startDistance: number;
+    startZoom: number;
+    anchor: Point; // Content point under the fingers when the gesture began
+  } | null>(null);
+  const pendingScrollRef = useRef<Point | null>(null);
+  const hexDragActiveRef = useRef(false);
+  // Last grid cell under the pointer; paste target
+  const pointerCellRef = useRef<{ row: number; col: number } | null>(null);
+  const pulseTimerRef = useRef<number | null>(null);
+
+  // Single-hex selection is the common case; multi-select is builder-only
+  const selectedHexId = selectedHexIds.length === 1 ? selectedHexIds[0] : null;
+  const setSelectedHexId = (id: string | null) => setSelectedHexIds(id ? [id] : []);
 
   // ========================================
   // INITIALIZATION
@@ -119,27 +213,275 @@ const AppContent: React.FC = () => {
     init();
   }, [isConnected, user?.role, storageMode]);
 
+  useEffect(() => {
+    setSearchInUrl(searchQuery);
+  }, [searchQuery]);
+
+  useEffect(() => () => {
+    if (pulseTimerRef.current) window.clearTimeout(pulseTimerRef.current);
+  }, []);
+
+  // Keep a local draft of unsaved edits so a crash or reload doesn't lose them
+  useEffect(() => {
+    if (!currentMap || !canEdit || recoverableDraft) return;
+    if (hasUnsavedChanges(currentMap, savedMap)) saveDraft(currentMap);
+    else clearDraft(currentMap.mapId);
+  }, [currentMap, savedMap, recoverableDraft]);
+
+  // Autosave once edits have settled. After a failure it waits for the next edit
+  // rather than retrying the same map (and repeating the toast) every few seconds.
+  useEffect(() => {
+    if (!currentMap || !canEdit || layoutPreview || saveStatus === 'saving' || saveStatus === 'conflict') return;
+    if (!hasUnsavedChanges(currentMap, savedMap)) return;
+    if (saveStatus === 'error' && autosaveFailedRef.current === currentMap) return;
+    const timer = setTimeout(() => {
+      persistMap(currentMap).catch(err => {
+        if (err instanceof MapConflictError) return;
+        autosaveFailedRef.current = currentMap;
+        notify('Autosave failed. Your changes are kept as a local draft.');
+      });
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [currentMap, savedMap, saveStatus, layoutPreview]);
+
+  // Warn before leaving the page with unsaved edits
+  useEffect(() => {
+    if (!hasUnsavedChanges(currentMap, savedMap)) return;
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault();
+      e.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [currentMap, savedMap]);
+
+  // An offline save of this map that the backend refused as stale opens the resolver
+  useEffect(() => {
+    const mapId = currentMap?.mapId;
+    if (!mapId || !canEdit) return;
+    let cancelled = false;
+    const check = () => {
+      storageService.getHeldConflict(mapId).then(held => {
+        if (cancelled || !held) return;
+        const local = currentMapRef.current?.mapId === mapId ? currentMapRef.current : held.local;
+        setConflict(prev => prev || { local, remote: held.remote, base: held.base });
+        setSaveStatus('conflict');
+      });
+    };
+    check();
+    const unsubscribe = subscribeToOutbox(check);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, [currentMap?.mapId, canEdit]);
+
+  // Load this user's progress for the current map (drives lock state)
+  useEffect(() => {
+    const mapId = currentMap?.mapId;
+    if (!mapId) {
+      setStudentProgress({});
+      return;
+    }
+    let cancelled = false;
+    storageService.getProgressForUserAndMap(mapId, user?.email)
+      .then(progress => { if (!cancelled) setStudentProgress(progress); })
+      .catch(err => console.error('Failed to load progress', err));
+    return () => { cancelled = true; };
+  }, [currentMap?.mapId, storageMode, user?.email]);
+
+  // Connection mode and layout previews only make sense while editing
+  useEffect(() => {
+    if (!builderMode || viewMode !== 'map') {
+      exitConnectionMode();
+      setLayoutPreview(null);
+    }
+  }, [builderMode, viewMode]);
+
+  // Esc closes the type popover first, then leaves connection mode
+  useEffect(() => {
+    if (!connectionMode) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      if (pendingTargetId) setPendingTargetId(null);
+      else exitConnectionMode();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [connectionMode, pendingTargetId]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y); text fields keep their native undo
+  useEffect(() => {
+    if (!builderMode) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      } else if (key === 'c' || key === 'x') {
+        if (!selectedHexIds.length) return;
+        e.preventDefault();
+        handleCopy(key === 'x');
+      } else if (key === 'v') {
+        e.preventDefault();
+        handlePaste();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [builderMode, history, currentMap, selectedHexIds, layoutPreview, simulating]);
+
+  // Rubber-band selection follows the pointer until release
+  useEffect(() => {
+    if (!selectionBox) return;
+    const handlePointerMove = (e: PointerEvent) => {
+      const p = clientToContent(e.clientX, e.clientY);
+      setSelectionBox(prev => prev ? { ...prev, x: p.x, y: p.y } : null);
+    };
+    const handlePointerUp = (e: PointerEvent) => {
+      const p = clientToContent(e.clientX, e.clientY);
+      if (e.type === 'pointerup') finishBoxSelection({ ...selectionBox, x: p.x, y: p.y });
+      setSelectionBox(null);
+    };
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, [selectionBox, currentMap, zoom]);
+
+  // Touch gestures on the grid: two fingers pinch-zoom and pan; one finger
+  // pans in the student view (in builder mode it drags hexes or box-selects)
+  useEffect(() => {
+    const points = touchPointsRef.current;
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (!points.has(e.pointerId)) return;
+      const previous = points.get(e.pointerId)!;
+      points.set(e.pointerId, { x: e.clientX, y: e.clientY });
+      const container = mapGridRef.current;
+      if (!container) return;
+
+      const gesture = touchGestureRef.current;
+      if (gesture && points.size >= 2) {
+        const [a, b] = Array.from(points.values());
+        const distance = Math.hypot(a.x - b.x, a.y - b.y);
+        const nextZoom = clampZoom(gesture.startZoom * distance / gesture.startDistance);
+        const rect = container.getBoundingClientRect();
+        const scroll = {
+          x: gesture.anchor.x * nextZoom - ((a.x + b.x) / 2 - rect.left),
+          y: gesture.anchor.y * nextZoom - ((a.y + b.y) / 2 - rect.top)
+        };
+        // Apply now for panning and again once the zoomed size has rendered
+        pendingScrollRef.current = scroll;
+        container.scrollLeft = scroll.x;
+        container.scrollTop = scroll.y;
+        setZoom(nextZoom);
+      } else if (points.size === 1 && (!isEditing || panMode) && !hexDragActiveRef.current) {
+        container.scrollLeft -= e.clientX - previous.x;
+        container.scrollTop -= e.clientY - previous.y;
+      }
+    };
+
+    const handlePointerEnd = (e: PointerEvent) => {
+      if (!points.delete(e.pointerId)) return;
+      if (points.size < 2) touchGestureRef.current = null;
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerEnd);
+    window.addEventListener('pointercancel', handlePointerEnd);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerEnd);
+      window.removeEventListener('pointercancel', handlePointerEnd);
+    };
+  }, [builderMode, canEdit, simulating, panMode]);
+
+  // Restore the zoom anchor once the resized grid has rendered
+  useLayoutEffect(() => {
+    const container = mapGridRef.current;
+    const scroll = pendingScrollRef.current;
+    if (container && scroll) {
+      container.scrollLeft = scroll.x;
+      container.scrollTop = scroll.y;
+      pendingScrollRef.current = null;
+    }
+    syncViewport();
+  }, [zoom, currentMap?.mapId, viewMode, loading]);
+
+  useEffect(() => {
+    window.addEventListener('resize', syncViewport);
+    return () => window.removeEventListener('resize', syncViewport);
+  }, [zoom]);
+
+  // Ctrl/Cmd + wheel (and trackpad pinch) zooms around the pointer; plain wheel scrolls
+  useEffect(() => {
+    const container = mapGridRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      e.preventDefault();
+      zoomAround(zoom * Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED), { x: e.clientX, y: e.clientY });
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, [zoom, viewMode, loading]);
+
+  // Pan mode: mouse and pen drags scroll the grid
+  useEffect(() => {
+    if (!panStart) return;
+    const handlePointerMove = (e: PointerEvent) => {
+      if (e.pointerId !== panStart.pointerId || !mapGridRef.current) return;
+      mapGridRef.current.scrollLeft = panStart.scrollLeft - (e.clientX - panStart.x);
+      mapGridRef.current.scrollTop = panStart.scrollTop - (e.clientY - panStart.y);
+    };
+    const handlePointerUp = (e: PointerEvent) => {
+      if (e.pointerId === panStart.pointerId) setPanStart(null);
+    };
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerUp);
+    window.addEventListener('pointercancel', handlePointerUp);
+    return () => {
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerUp);
+      window.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, [panStart]);
+
   const init = async () => {
     setLoading(true);
     try {
       // Determine if user is student (for filtered data)
       const isStudent = user?.role === 'student';
       
-      const [loadedMaps, loadedClasses, loadedCurriculum] = await Promise.all([
+      const [loadedMaps, loadedClasses, loadedCurriculum, loadedTemplates] = await Promise.all([
         isStudent && !isLocalMode ? storageService.getStudentMaps() : storageService.getMaps(),
         storageService.getClasses(),
-        storageService.getCurriculumConfig()
+        storageService.getCurriculumConfig(),
+        storageService.getHexTemplates()
       ]);
       
       setMaps(loadedMaps);
       setClasses(loadedClasses);
       setCurriculum(loadedCurriculum);
+      setTemplates(loadedTemplates);
       
-      if (loadedMaps.length > 0) {
-        const existing = currentMap ? loadedMaps.find(m => m.mapId === currentMap.mapId) : null;
-        setCurrentMap(existing || loadedMaps[0]);
-      } else {
-        setCurrentMap(null);
+      // A reload (e.g. on reconnect) leaves unsaved edits on screen; they save against
+      // the version they started from as usual
+      const editing = currentMapRef.current;
+      const existing = editing ? loadedMaps.find(m => m.mapId === editing.mapId) : null;
+      if (!existing || !hasUnsavedChanges(editing, savedMapRef.current)) {
+        openMap(existing || loadedMaps[0] || null);
       }
 
       // Students can't use builder mode
@@ -164,6 +506,94 @@ const AppContent: React.FC = () => {
     setTimeout(() => setNotification(null), 3000);
   };
 
+  // Show a map as freshly loaded: clean history, and offer any draft left from a previous session
+  const openMap = (map: LearningMap | null) => {
+    setCurrentMap(map);
+    setSavedMap(map);
+    setHistory(EMPTY_HISTORY);
+    setConflict(null);
+    setSaveStatus(status => status === 'conflict' ? 'idle' : status);
+    // Filters can name regions and tags of one map, so they don't carry over
+    setFilter(EMPTY_FILTER);
+    const draft = map ? getDraft(map.mapId) : null;
+    setRecoverableDraft(draft && hasUnsavedChanges(draft.map, map) ? draft : null);
+  };
+
+  // Unsaved edits stay in the local draft, so leaving only needs a heads-up
+  const confirmLeaveUnsaved = () => {
+    if (!hasUnsavedChanges(currentMap, savedMap)) return true;
+    return window.confirm(`"${currentMap?.title}" has unsaved changes. They'll be kept as a draft you can restore when you reopen it. Continue?`);
+  };
+
+  // `base` is the saved version the edits started from; a newer save by someone
+  // else opens the conflict resolver instead of being overwritten.
+  // `snapshot` keeps the save in the map's version history (autosaves don't).
+  // A save made while another is in flight (e.g. Save during an autosave) waits for it
+  // and is based on what it saved, rather than racing it into a conflict with itself.
+  const persistMap = (
+    map: LearningMap,
+    base: LearningMap | null = savedMap,
+    { snapshot = false }: { snapshot?: boolean } = {}
+  ): Promise<LearningMap> => {
+    const previous = saveInFlightRef.current;
+    const pending = (async () => {
+      if (previous) {
+        // Its conflict is already open and covers these edits too
+        const earlier = await previous.catch(err => {
+          if (err instanceof MapConflictError) throw err;
+          return null;
+        });
+        if (earlier && earlier.mapId === map.mapId) base = earlier;
+      }
+      return saveMapNow(map, base, snapshot, () => saveInFlightRef.current === pending);
+    })();
+    saveInFlightRef.current = pending;
+    const settle = () => { if (saveInFlightRef.current === pending) saveInFlightRef.current = null; };
+    pending.then(settle, settle);
+    return pending;
+  };
+
+  // `isLatest` is false while another save is queued behind this one
+  const saveMapNow = async (
+    map: LearningMap,
+    base: LearningMap | null,
+    snapshot: boolean,
+    isLatest: () => boolean
+  ): Promise<LearningMap> => {
+    setSaveStatus('saving');
+    try {
+      const saved = await storageService.saveMap(map, {
+        base: base && base.mapId === map.mapId ? preconditionOf(base) : undefined,
+        author: user?.email,
+        snapshot
+      });
+      setMaps(prev => {
+        const idx = prev.findIndex(m => m.mapId === saved.mapId);
+        if (idx >= 0) {
+          const newArr = [...prev];
+          newArr[idx] = saved;
+          return newArr;
+        }
+        return [...prev, saved];
+      });
+      setSavedMap(saved);
+      // Edits made while the save was in flight stay put (and stay dirty)
+      if (currentMapRef.current === map) setCurrentMap(saved);
+      if (isLatest()) setSaveStatus('idle');
+      return saved;
+    } catch (err) {
+      // Resolve against what's on screen now, including edits made while saving
+      const local = currentMapRef.current;
+      if (err instanceof MapConflictError && local?.mapId === map.mapId) {
+        setConflict({ local, remote: err.remote, base: err.base !== undefined ? err.base : base });
+        setSaveStatus('conflict');
+      } else {
+        setSaveStatus('error');
+      }
+      throw err;
+    }
+  };
+
   // ========================================
   // HANDLERS
   // ========================================
@@ -175,8 +605,12 @@ const AppContent: React.FC = () => {
   const handleMapChange = (mapId: string) => {
     const found = maps.find(m => m.mapId === mapId);
     if (found) {
-      setCurrentMap(JSON.parse(JSON.stringify(found)));
+      if (!confirmLeaveUnsaved()) return;
+      openMap(JSON.parse(JSON.stringify(found)));
       setSelectedHexId(null);
+      exitConnectionMode();
+      setLayoutPreview(null);
+      setSimulatedProgress({});
     }
   };
 
@@ -192,24 +626,48 @@ const AppContent: React.FC = () => {
     
     notify('Saving map...');
     try {
-      const savedMap = await storageService.saveMap(currentMap);
-      setMaps(prev => {
-        const idx = prev.findIndex(m => m.mapId === savedMap.mapId);
-        if (idx >= 0) {
-          const newArr = [...prev];
-          newArr[idx] = savedMap;
-          return newArr;
-        }
-        return [...prev, savedMap];
-      });
-      setCurrentMap(savedMap);
-      notify('Map saved successfully.');
+      const saved = await persistMap(currentMap, savedMap, { snapshot: true });
+      setHistory(EMPTY_HISTORY);
+
+      const issues = validateMap(saved);
+      if (issues.length > 0) {
+        notify(`Map saved with ${issues.length} issue${issues.length === 1 ? '' : 's'} to review.`);
+        setShowValidation(true);
+      } else {
+        notify('Map saved successfully.');
+      }
     } catch (err) {
+      if (err instanceof MapConflictError) {
+        notify('Someone else saved this map. Review their changes to continue.');
+        return;
+      }
       console.error(err);
       notify('Error saving map.');
     }
   };
 
+  // Their version becomes the saved baseline; anything kept from mine is saved on top of it
+  const handleResolveConflict = async (resolved: LearningMap) => {
+    if (!conflict) return;
+    const { remote } = conflict;
+    setConflict(null);
+    storageService.releaseHeldSave(remote.mapId);
+    setMaps(prev => prev.map(m => m.mapId === remote.mapId ? remote : m));
+    setSavedMap(remote);
+    commitMap(resolved, 'Resolve save conflict');
+    if (!hasUnsavedChanges(resolved, remote)) {
+      setSaveStatus('idle');
+      notify('Now showing the latest saved version.');
+      return;
+    }
+    try {
+      await persistMap(resolved, remote, { snapshot: true });
+      notify('Merged changes saved.');
+    } catch (err) {
+      if (!(err instanceof MapConflictError)) notify('Error saving map.');
+    }
+  };
+
   const handleAddHex = (type: 'core' | 'ext') => {
     if (!currentMap || !builderMode || !canEdit) return;
     const maxRow = currentMap.hexes.reduce((max, h) => Math.max(max, h.row), -1);
@@ -222,41 +680,579 @@ const AppContent: React.FC = () => {
       col: 0,
       progress: 'not_started'
     };
-    setCurrentMap({ ...currentMap, hexes: [...currentMap.hexes, newHex] });
+    commitMap({ ...currentMap, hexes: [...currentMap.hexes, newHex] }, 'Add hex');
     setSelectedHexId(newHex.id);
   };
 
-  const updateHex = (updatedHex: Hex) => {
+  // Every map edit goes through here so it lands in the undo history
+  const commitMap = (next: LearningMap, label: string, coalesceKey?: string) => {
+    if (!currentMap) return;
+    const before = currentMap;
+    setHistory(h => recordCommand(h, { label, before, after: next, coalesceKey, at: Date.now() }));
+    setCurrentMap(next);
+  };
+
+  const handleUndo = () => {
+    const result = undoCommand(history);
+    if (!result) return;
+    setHistory(result.state);
+    setCurrentMap(result.map);
+    notify(`Undo: ${result.label}`);
+  };
+
+  const handleRedo = () => {
+    const result = redoCommand(history);
+    if (!result) return;
+    setHistory(result.state);
+    setCurrentMap(result.map);
+    notify(`Redo: ${result.label}`);
+  };
+
+  // Edits to the same hex in quick succession (typing) coalesce into one step
+  const updateHex = (updatedHex: Hex, label = 'Edit hex', coalesceKey: string | undefined = `edit:${updatedHex.id}`) => {
     if (!currentMap || !canEdit) return;
     const newHexes = currentMap.hexes.map(h => h.id === updatedHex.id ? updatedHex : h);
-    setCurrentMap({ ...currentMap, hexes: newHexes });
+    commitMap({ ...currentMap, hexes: newHexes }, label, coalesceKey);
   };
 
-  const moveHex = (hex: Hex, newRow: number, newCol: number) => {
+  const updateHexes = (updatedHexes: Hex[], label: string) => {
     if (!currentMap || !canEdit) return;
-    const updated = { ...hex, row: newRow, col: newCol };
-    updateHex(updated);
+    const byId = new Map(updatedHexes.map(h => [h.id, h]));
+    commitMap({ ...currentMap, hexes: currentMap.hexes.map(h => byId.get(h.id) || h) }, label);
   };
 
-  const deleteHex = (hexId: string) => {
+  // Hexes dragged together with `hex` (the whole selection, if it's part of one)
+  const getDragGroup = (hex: Hex) =>
+    selectedHexIds.length > 1 && selectedHexIds.includes(hex.id)
+      ? displayHexes.filter(h => selectedHexIds.includes(h.id))
+      : [hex];
+  // Read through a ref so handleDragMove can stay stable across renders
+  const getDragGroupRef = useRef(getDragGroup);
+  getDragGroupRef.current = getDragGroup;
+
+  const moveHex = (hex: Hex, newRow: number, newCol: number, coalesceKey?: string) => {
     if (!currentMap || !canEdit) return;
-    if (window.confirm('Delete this hex?')) {
-      setCurrentMap({
-        ...currentMap,
-        hexes: currentMap.hexes.filter(h => h.id !== hexId)
-      });
-      setSelectedHexId(null);
+    const group = getDragGroup(hex);
+    const targets = translateCells(group, hex, { row: newRow, col: newCol });
+    if (group.every(h => targets[h.id].row === h.row && targets[h.id].col === h.col)) return;
+
+    const placed = layoutPreview ? applyLayout(currentMap.hexes, layoutPreview) : currentMap.hexes;
+    const resolution = resolveDrop(placed, targets, collisionMode);
+    if (resolution.ok === false) {
+      notify('That cell is taken.');
+      return;
+    }
+
+    // While previewing auto-arrange, drags adjust the proposal instead of the map
+    if (layoutPreview) {
+      setLayoutPreview({ ...layoutPreview, ...resolution.cells });
+      return;
+    }
+    const count = group.length;
+    commitMap(
+      { ...currentMap, hexes: applyLayout(currentMap.hexes, resolution.cells) },
+      count > 1 ? `Move ${count} hexes` : 'Move hex',
+      coalesceKey
+    );
+  };
+
+  // Regions
+  const handleAddRegion = () => {
+    if (!currentMap || !canEdit) return;
+    const region = createRegion(currentMap.regions || []);
+    const hexes = selectedHexIds.length ? assignRegion(currentMap.hexes, selectedHexIds, region.id) : currentMap.hexes;
+    commitMap({ ...currentMap, regions: [...(currentMap.regions || []), region], hexes }, 'Add region');
+  };
+
+  const updateRegion = (regionId: string, updates: Partial<MapRegion>) => {
+    if (!currentMap || !canEdit) return;
+    const regions = (currentMap.regions || []).map(r => r.id === regionId ? { ...r, ...updates } : r);
+    commitMap({ ...currentMap, regions }, 'Edit region', `region:${regionId}`);
+  };
+
+  const handleDeleteRegion = (regionId: string) => {
+    if (!currentMap || !canEdit) return;
+    setFilter({
+      ...filter,
+      conditions: filter.conditions.map(c => c.field === 'region' ? { ...c, values: c.values.filter(v => v !== regionId) } : c)
+    });
+    commitMap(removeRegion(currentMap, regionId), 'Delete region');
+  };
+
+  const handleAssignRegion = (regionId: string, hexIds: string[]) => {
+    if (!currentMap || !canEdit || hexIds.length === 0) return;
+    commitMap({ ...currentMap, hexes: assignRegion(currentMap.hexes, hexIds, regionId) }, 'Change region');
+  };
+
+  const selectRegionMembers = (regionId: string) => {
+    if (!currentMap) return;
+    setSelectedHexIds(currentMap.hexes.filter(h => h.regionId === regionId).map(h => h.id));
+    setShowRegions(false);
+  };
+
+  // Filter presets are stored with the map so everyone viewing it can apply them
+  const handleSaveFilterPreset = (name: string) => {
+    if (!currentMap || !canEdit) return;
+    const preset = { id: 'preset-' + Date.now(), name, filter };
+    const filterPresets = [...(currentMap.settings?.filterPresets || []), preset];
+    commitMap({ ...currentMap, settings: { ...currentMap.settings, filterPresets } }, 'Save filter preset');
+    notify(`Saved filter "${name}".`);
+  };
+
+  const handleDeleteFilterPreset = (presetId: string) => {
+    if (!currentMap || !canEdit) return;
+    const filterPresets = (currentMap.settings?.filterPresets || []).filter(p => p.id !== presetId);
+    commitMap({ ...currentMap, settings: { ...currentMap.settings, filterPresets } }, 'Delete filter preset');
+  };
+
+  const setCollisionMode = (mode: CollisionMode) => {
+    if (!currentMap || !canEdit) return;
+    commitMap({ ...currentMap, settings: { ...currentMap.settings, collisionMode: mode } }, 'Change drop behaviour');
+  };
+
+  // Live drag positions feed the edge layer and the other members of a group drag.
+  // Memoized: HexNode re-subscribes its pointer listeners whenever this changes.
+  const handleDragMove = useCallback((hex: Hex, position: Point | null) => {
+    hexDragActiveRef.current = !!position;
+    const group = getDragGroupRef.current(hex);
+    if (!position) {
+      setDragPositions({});
+      setDropTargets(null);
+      return;
     }
+    setDropTargets(translateCells(group, hex, snapToCell(position.x, position.y, HEX_METRICS)));
+    const base = getBasePosition(hex.row, hex.col, HEX_METRICS);
+    const dx = position.x - base.x;
+    const dy = position.y - base.y;
+    const next: Record<string, Point> = {};
+    group.forEach(h => {
+      const p = getBasePosition(h.row, h.col, HEX_METRICS);
+      next[h.id] = { x: p.x + dx, y: p.y + dy };
+    });
+    setDragPositions(next);
+  }, []);
+
+  const handleHexSelect = (hex: Hex, additive?: boolean) => {
+    if (!additive || !isEditing) {
+      setSelectedHexId(hex.id);
+      return;
+    }
+    setSelectedHexIds(prev => prev.includes(hex.id) ? prev.filter(id => id !== hex.id) : [...prev, hex.id]);
+  };
+
+  const focusHex = (hexId: string) => {
+    setFocusedHexId(hexId);
+    gridContentRef.current?.querySelector<HTMLElement>(`[data-hex-id="${hexId}"]`)?.focus();
+  };
+
+  // Arrow keys move focus to the neighbouring hex; Alt+arrow nudges the selection one cell
+  const handleHexNavigate = (hex: Hex, direction: GridDirection, move: boolean) => {
+    if (move) {
+      if (!isEditing) return;
+      const cell = stepCell(hex.row, hex.col, direction);
+      if (!cell) return;
+      if (!selectedHexIds.includes(hex.id)) setSelectedHexId(hex.id);
+      moveHex(hex, cell.row, cell.col, `nudge:${hex.id}`);
+      return;
+    }
+    const next = findNearestInDirection(visibleHexes.filter(h => h.id !== hex.id), hex, direction);
+    if (next) focusHex(next.id);
+  };
+
+  const handleHexRemove = (hex: Hex) => {
+    if (!isEditing) return;
+    deleteHexes(selectedHexIds.includes(hex.id) ? selectedHexIds : [hex.id]);
+  };
+
+  // Grid content coordinates for a screen point, undoing scroll and zoom
+  const clientToContent = (clientX: number, clientY: number): Point => {
+    const rect = gridContentRef.current?.getBoundingClientRect();
+    return rect ? { x: (clientX - rect.left) / zoom, y: (clientY - rect.top) / zoom } : { x: 0, y: 0 };
+  };
+
+  const syncViewport = () => {
+    const container = mapGridRef.current;
+    if (!container) return;
+    setViewport({
+      x: container.scrollLeft / zoom,
+      y: container.scrollTop / zoom,
+      width: container.clientWidth / zoom,
+      height: container.clientHeight / zoom
+    });
+  };
+
+  // Change zoom keeping the grid point under `focus` (screen coords) in place
+  const zoomAround = (nextZoom: number, focus?: Point) => {
+    const container = mapGridRef.current;
+    const next = clampZoom(nextZoom);
+    if (!container || next === zoom) return;
+    const rect = container.getBoundingClientRect();
+    const fx = (focus ? focus.x : rect.left + container.clientWidth / 2) - rect.left;
+    const fy = (focus ? focus.y : rect.top + container.clientHeight / 2) - rect.top;
+    pendingScrollRef.current = {
+      x: (container.scrollLeft + fx) / zoom * next - fx,
+      y: (container.scrollTop + fy) / zoom * next - fy
+    };
+    setZoom(next);
+  };
+
+  const fitToContent = () => {
+    const container = mapGridRef.current;
+    if (!container || displayHexes.length === 0) {
+      zoomAround(1);
+      return;
+    }
+    let minX = Infinity, minY = Infinity, maxX = 0, maxY = 0;
+    displayHexes.forEach(h => {
+      const pos = getBasePosition(h.row, h.col, HEX_METRICS);
+      const dims = getHexDimensions(h.size, HEX_METRICS);
+      minX = Math.min(minX, pos.x);
+      minY = Math.min(minY, pos.y);
+      maxX = Math.max(maxX, pos.x + dims.width);
+      maxY = Math.max(maxY, pos.y + dims.height);
+    });
+    const boundsWidth = maxX - minX + FIT_PADDING * 2;
+    const boundsHeight = maxY - minY + FIT_PADDING * 2;
+    const next = clampZoom(Math.min(container.clientWidth / boundsWidth, container.clientHeight / boundsHeight));
+    const scroll = {
+      x: (minX - FIT_PADDING) * next - Math.max(0, (container.clientWidth - boundsWidth * next) / 2),
+      y: (minY - FIT_PADDING) * next - Math.max(0, (container.clientHeight - boundsHeight * next) / 2)
+    };
+    if (next === zoom) {
+      container.scrollLeft = scroll.x;
+      container.scrollTop = scroll.y;
+      return;
+    }
+    pendingScrollRef.current = scroll;
+    setZoom(next);
+  };
+
+  const centerViewOn = (point: Point) => {
+    const container = mapGridRef.current;
+    if (!container) return;
+    container.scrollLeft = point.x * zoom - container.clientWidth / 2;
+    container.scrollTop = point.y * zoom - container.clientHeight / 2;
+  };
+
+  // Selects a search hit, brings it into view at 100% or closer and pulses it
+  const jumpToHex = (hexId: string) => {
+    const hex = displayHexes.find(h => h.id === hexId);
+    const container = mapGridRef.current;
+    if (!hex || !container) return;
+    if (filter.display === 'hide' && filteredOutIds.has(hexId)) setFilter({ ...filter, display: 'dim' });
+
+    const center = getHexCenter(hex, HEX_METRICS);
+    const nextZoom = Math.max(zoom, 1);
+    if (nextZoom !== zoom) {
+      pendingScrollRef.current = {
+        x: center.x * nextZoom - container.clientWidth / 2,
+        y: center.y * nextZoom - container.clientHeight / 2
+      };
+      setZoom(nextZoom);
+    } else {
+      centerViewOn(center);
+    }
+
+    setSelectedHexId(hexId);
+    setFocusedHexId(hexId);
+    setPulseHexId(hexId);
+    if (pulseTimerRef.current) window.clearTimeout(pulseTimerRef.current);
+    pulseTimerRef.current = window.setTimeout(() => setPulseHexId(null), SEARCH_PULSE_MS);
+  };
+
+  // Every touch on the grid is tracked (even over hexes) so a second finger can start a pinch
+  const handleGridPointerDownCapture = (e: React.PointerEvent) => {
+    // In pan mode, drags scroll the grid instead of reaching hexes
+    if (panMode) {
+      e.stopPropagation();
+      if (e.pointerType !== 'touch' && mapGridRef.current) {
+        e.preventDefault();
+        setPanStart({
+          pointerId: e.pointerId,
+          x: e.clientX,
+          y: e.clientY,
+          scrollLeft: mapGridRef.current.scrollLeft,
+          scrollTop: mapGridRef.current.scrollTop
+        });
+      }
+    }
+    if (e.pointerType !== 'touch') return;
+    const points = touchPointsRef.current;
+    points.set(e.pointerId, { x: e.clientX, y: e.clientY });
+    if (points.size !== 2 || hexDragActiveRef.current || !mapGridRef.current) return;
+
+    const [a, b] = Array.from(points.values());
+    const container = mapGridRef.current;
+    const rect = container.getBoundingClientRect();
+    touchGestureRef.current = {
+      startDistance: Math.max(1, Math.hypot(a.x - b.x, a.y - b.y)),
+      startZoom: zoom,
+      anchor: {
+        x: ((a.x + b.x) / 2 - rect.left + container.scrollLeft) / zoom,
+        y: ((a.y + b.y) / 2 - rect.top + container.scrollTop) / zoom
+      }
+    };
+    setSelectionBox(null);
+  };
+
+  const handleGridPointerDown = (e: React.PointerEvent) => {
+    if (!isEditing || connectionMode || e.button !== 0) return;
+    if (e.pointerType === 'touch' && touchPointsRef.current.size > 1) return;
+    e.preventDefault();
+    const { x, y } = clientToContent(e.clientX, e.clientY);
+    setSelectionBox({ startX: x, startY: y, x, y, additive: e.shiftKey });
+  };
+
+  const finishBoxSelection = (box: { startX: number; startY: number; x: number; y: number; additive: boolean }) => {
+    const left = Math.min(box.startX, box.x);
+    const right = Math.max(box.startX, box.x);
+    const top = Math.min(box.startY, box.y);
+    const bottom = Math.max(box.startY, box.y);
+
+    // A click on empty grid clears the selection
+    if (right - left < 4 && bottom - top < 4) {
+      if (!box.additive) setSelectedHexIds([]);
+      return;
+    }
+
+    const inside = visibleHexes
+      .filter(h => {
+        const c = getHexCenter(h, HEX_METRICS);
+        return c.x >= left && c.x <= right && c.y >= top && c.y <= bottom;
+      })
+      .map(h => h.id);
+    setSelectedHexIds(prev => box.additive ? Array.from(new Set([...prev, ...inside])) : inside);
+  };
+
+  const enterConnectionMode = (sourceId: string | null) => {
+    if (simulating) return;
+    setConnectionMode(true);
+    setConnectionSourceId(sourceId);
+    setPendingTargetId(null);
+  };
+
+  const exitConnectionMode = () => {
+    setConnectionMode(false);
+    setConnectionSourceId(null);
+    setPendingTargetId(null);
+  };
+
+  const handleConnectionClick = (hex: Hex) => {
+    if (!currentMap) return;
+    const source = currentMap.hexes.find(h => h.id === connectionSourceId);
+
+    // First click picks the source
+    if (!source) {
+      setConnectionSourceId(hex.id);
+      setSelectedHexId(hex.id);
+      setPendingTargetId(null);
+      return;
+    }
+
+    // Clicking the source again releases it so another can be picked
+    if (hex.id === source.id) {
+      setConnectionSourceId(null);
+      setPendingTargetId(null);
+      return;
+    }
+
+    // Existing connection toggles off
+    if (source.connections?.some(c => c.targetHexId === hex.id)) {
+      updateHex({ ...source, connections: source.connections.filter(c => c.targetHexId !== hex.id) }, 'Remove connection', undefined);
+      setPendingTargetId(null);
+      notify(`Removed connection to "${hex.label}"`);
+      return;
+    }
+
+    setPendingTargetId(hex.id);
+  };
+
+  const confirmConnection = (type: ConnectionType) => {
+    if (!currentMap || !pendingTargetId) return;
+    const source = currentMap.hexes.find(h => h.id === connectionSourceId);
+    if (!source) return;
+    updateHex({
+      ...source,
+      connections: [...(source.connections || []), { targetHexId: pendingTargetId, type }]
+    }, 'Add connection', undefined);
+    setPendingTargetId(null);
+  };
+
+  // Drop hexes along with connections pointing at them so no edges dangle
+  const removeHexes = (hexes: Hex[], hexIds: string[]) => {
+    const removed = new Set(hexIds);
+    return hexes
+      .filter(h => !removed.has(h.id))
+      .map(h => h.connections?.some(c => removed.has(c.targetHexId))
+        ? { ...h, connections: h.connections.filter(c => !removed.has(c.targetHexId)) }
+        : h);
+  };
+
+  const deleteHexes = (hexIds: string[]) => {
+    if (!currentMap || !canEdit || hexIds.length === 0) return;
+    const message = hexIds.length === 1 ? 'Delete this hex?' : `Delete ${hexIds.length} hexes?`;
+    if (window.confirm(message)) {
+      commitMap(
+        { ...currentMap, hexes: removeHexes(currentMap.hexes, hexIds) },
+        hexIds.length === 1 ? 'Delete hex' : `Delete ${hexIds.length} hexes`
+      );
+      setSelectedHexIds([]);
+    }
+  };
+
+  const deleteHex = (hexId: string) => deleteHexes([hexId]);
+
+  const handleCopy = async (cut = false) => {
+    if (!currentMap) return;
+    const clip = createClipboard(currentMap, selectedHexIds);
+    if (!clip) return;
+    await writeClipboard(clip);
+    const count = clip.hexes.length;
+    const noun = count === 1 ? 'hex' : `${count} hexes`;
+    if (!cut) {
+      notify(`Copied ${noun}.`);
+      return;
+    }
+    if (!canEdit || layoutPreview || simulating) return;
+    commitMap({ ...currentMap, hexes: removeHexes(currentMap.hexes, selectedHexIds) }, `Cut ${noun}`);
+    setSelectedHexIds([]);
+    notify(`Cut ${noun}.`);
+  };
+
+  const handlePaste = async () => {
+    if (!currentMap || !canEdit || layoutPreview || simulating) return;
+    const clip = await readClipboard();
+    if (!clip) {
+      notify('Nothing to paste.');
+      return;
+    }
+    // Without a pointer over the grid, paste just below the existing hexes
+    const maxRow = currentMap.hexes.reduce((max, h) => Math.max(max, h.row), -1);
+    const target = pointerCellRef.current || { row: maxRow + 1, col: 0 };
+    // Region membership only carries over within a map that has the region
+    const regionIds = new Set((currentMap.regions || []).map(r => r.id));
+    const pasted = pasteHexes(clip, currentMap.hexes, target)
+      .map(h => h.regionId && !regionIds.has(h.regionId) ? assignRegion([h], [h.id], null)[0] : h);
+    const noun = pasted.length === 1 ? 'hex' : `${pasted.length} hexes`;
+    commitMap({ ...currentMap, hexes: [...currentMap.hexes, ...pasted] }, `Paste ${noun}`);
+    setSelectedHexIds(pasted.map(h => h.id));
+    notify(`Pasted ${noun}.`);
+  };
+
+  // Grid cell under the pointer, treating it as the middle of the hex to be placed
+  const getPointerCell = (e: { clientX: number; clientY: number }) => {
+    if (!gridContentRef.current) return null;
+    const p = clientToContent(e.clientX, e.clientY);
+    return snapToCell(p.x - HEX_METRICS.width / 2, p.y - HEX_METRICS.height / 2, HEX_METRICS);
+  };
+
+  const handleGridPointerMove = (e: React.PointerEvent) => {
+    if (e.pointerType !== 'touch') pointerCellRef.current = getPointerCell(e);
+  };
+
+  const handleAddFromTemplate = (template: HexTemplate, cell?: { row: number; col: number }) => {
+    if (!currentMap || !canEdit || layoutPreview) return;
+    const maxRow = currentMap.hexes.reduce((max, h) => Math.max(max, h.row), -1);
+    const occupied = new Set(currentMap.hexes.map(h => cellKey(h.row, h.col)));
+    const target = cell || { row: maxRow + 1, col: 0 };
+    const free = findNearestFreeCell(occupied, target.row, target.col);
+    const newHex = createHexFromTemplate(template, free.row, free.col);
+    commitMap({ ...currentMap, hexes: [...currentMap.hexes, newHex] }, `Add ${template.name}`);
+    setSelectedHexId(newHex.id);
+  };
+
+  const handleGridDragOver = (e: React.DragEvent) => {
+    if (!isEditing || !e.dataTransfer.types.includes(TEMPLATE_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  const handleGridDrop = (e: React.DragEvent) => {
+    const templateId = e.dataTransfer.getData(TEMPLATE_DRAG_TYPE);
+    const template = templates.find(t => t.templateId === templateId);
+    if (!template) return;
+    e.preventDefault();
+    handleAddFromTemplate(template, getPointerCell(e) || undefined);
+  };
+
+  const handleSaveTemplate = async (hex: Hex) => {
+    const name = prompt('Template name:', hex.label);
+    if (!name) return;
+    try {
+      const saved = await storageService.saveHexTemplate(createTemplateFromHex(hex, name));
+      setTemplates(prev => [...prev, saved]);
+      notify(`Saved template "${name}".`);
+    } catch (err) {
+      console.error(err);
+      notify('Error saving template.');
+    }
+  };
+
+  const handlePreviewLayout = () => {
+    if (!currentMap || !canEdit || simulating) return;
+    if (currentMap.hexes.length === 0) {
+      notify('Nothing to arrange.');
+      return;
+    }
+    exitConnectionMode();
+    setLayoutPreview(computeLayeredLayout(currentMap.hexes));
+  };
+
+  // Undone like any other edit, from the history
+  const handleApplyLayout = () => {
+    if (!currentMap || !layoutPreview) return;
+    commitMap({ ...currentMap, hexes: applyLayout(currentMap.hexes, layoutPreview) }, 'Auto-arrange');
+    setLayoutPreview(null);
+    notify('Auto-arrange applied. Undo (Ctrl+Z) reverts it.');
+  };
+
+  const toggleSimulation = () => {
+    if (!simulating) {
+      exitConnectionMode();
+      setLayoutPreview(null);
+      setSimulatedProgress({});
+    }
+    setSimulating(!simulating);
+  };
+
+  const handleSimulatedChange = (hexId: string, updates: { status?: HexProgress; score?: number }) => {
+    setSimulatedProgress(prev => ({ ...prev, [hexId]: { ...prev[hexId], ...updates } }));
+  };
+
+  const handleApplyFix = (issue: ValidationIssue) => {
+    if (!currentMap || !canEdit) return;
+    commitMap(applyFix(currentMap, issue), issue.fixLabel);
+    notify(`Fixed: ${issue.fixLabel.toLowerCase()}`);
   };
 
   const handleProgressUpdate = async (hexId: string, status: HexProgress) => {
     if (!currentMap) return;
+    if (simulating) {
+      handleSimulatedChange(hexId, { status });
+      return;
+    }
     const updatedHexes = currentMap.hexes.map(h => 
       h.id === hexId ? { ...h, progress: status } : h
     );
     setCurrentMap({ ...currentMap, hexes: updatedHexes });
-    await storageService.updateStudentProgress(currentMap.mapId, hexId, status);
-    notify(`Progress saved: ${status.replace('_', ' ')}`);
+    setStudentProgress(prev => ({ ...prev, [hexId]: { ...prev[hexId], status, completedAt: new Date().toISOString() } }));
+    const result = await storageService.updateStudentProgress(user?.email || 'local@demo', currentMap.mapId, hexId, status);
+    if (result.ok === false) notify(`Could not save progress: ${result.error}`);
+    else if (result.queued) notify(`Progress saved offline: ${status.replace('_', ' ')}. It will sync when you reconnect.`);
+    else notify(`Progress saved: ${status.replace('_', ' ')}`);
+  };
+
+  const handleRestoreDraft = () => {
+    if (!recoverableDraft) return;
+    commitMap(recoverableDraft.map, 'Restore draft');
+    setRecoverableDraft(null);
+    notify('Unsaved changes restored.');
+  };
+
+  const handleDiscardDraft = () => {
+    if (!recoverableDraft) return;
+    clearDraft(recoverableDraft.map.mapId);
+    setRecoverableDraft(null);
   };
 
   const handleNewMap = async () => {
@@ -264,13 +1260,14 @@ const AppContent: React.FC = () => {
       notify('You do not have permission to create maps.');
       return;
     }
+    if (!confirmLeaveUnsaved()) return;
     const title = prompt("Enter title for new map:", "New Map");
     if (!title) return;
     notify('Creating...');
     try {
       const newMap = await storageService.createMap(title);
       setMaps(prev => [...prev, newMap]);
-      setCurrentMap(newMap);
+      openMap(newMap);
       setBuilderMode(true);
       notify('New map created!');
     } catch (err) {
@@ -284,6 +1281,8 @@ const AppContent: React.FC = () => {
       notify('Cannot duplicate.');
       return;
     }
+    // Duplicating copies the saved version, not unsaved edits
+    if (!confirmLeaveUnsaved()) return;
     const defaultTitle = `${currentMap.title} (Copy)`;
     const newTitle = prompt("Enter title for copy:", defaultTitle);
     if (!newTitle) return;
@@ -292,7 +1291,7 @@ const AppContent: React.FC = () => {
       const newMap = await storageService.duplicateMap(currentMap.mapId, newTitle);
       if (newMap) {
         setMaps(prev => [...prev, newMap]);
-        setCurrentMap(newMap);
+        openMap(newMap);
         setBuilderMode(true);
         notify('Map duplicated!');
       }
@@ -302,6 +1301,39 @@ const AppContent: React.FC = () => {
     }
   };
 
+  // Restoring is an ordinary edit on top of the current map, so it can be undone
+  // and becomes a new revision on the next manual save; the current revision number is kept
+  const handleRestoreRevision = (revision: MapRevision) => {
+    if (!currentMap || !canEdit) return;
+    if (!window.confirm(`Restore revision ${revision.revision}? The map will be replaced by that version; you can undo this.`)) return;
+    commitMap({
+      ...revision.map,
+      meta: { ...currentMap.meta, description: revision.map.meta?.description }
+    }, `Restore revision ${revision.revision}`);
+    setSelectedHexId(null);
+    setShowHistory(false);
+    notify(`Restored revision ${revision.revision}.`);
+  };
+
+  const handleBranchRevision = async (revision: MapRevision) => {
+    if (!currentMap || !canCreate) return;
+    if (!confirmLeaveUnsaved()) return;
+    const newTitle = prompt("Enter title for the new map:", `${revision.map.title} (from revision ${revision.revision})`);
+    if (!newTitle) return;
+    notify('Branching...');
+    try {
+      const newMap = await storageService.branchMap(revision, newTitle, user?.email);
+      setMaps(prev => [...prev, newMap]);
+      openMap(newMap);
+      setShowHistory(false);
+      setBuilderMode(true);
+      notify('Map branched!');
+    } catch (err) {
+      console.error(err);
+      notify('Error branching map.');
+    }
+  };
+
   const handleAssignClass = async () => {
     if (!currentMap || !canAssign) return;
     if (!selectedClassId) { alert('Please select a class'); return; }
@@ -314,9 +1346,78 @@ const AppContent: React.FC = () => {
   // ========================================
 
   const selectedHex = currentMap?.hexes.find(h => h.id === selectedHexId);
+  const selectedHexes = selectedHexIds.length > 1 ? (currentMap?.hexes.filter(h => selectedHexIds.includes(h.id)) || []) : [];
+  const isSimulating = simulating && canEdit;
+  const isEditing = builderMode && canEdit && !isSimulating;
+
+  // The simulator starts from a blank student, ignoring progress stored on hexes
+  const viewMap = useMemo(() => {
+    if (!currentMap || !isSimulating) return currentMap;
+    return { ...currentMap, hexes: currentMap.hexes.map(({ progress, ...h }) => h) };
+  }, [currentMap, isSimulating]);
+  const viewProgress = isSimulating ? simulatedProgress : studentProgress;
+
+  // Lock state is only computed for the student-facing view
+  const lockStates = useMemo(
+    () => viewMap && !isEditing ? computeLockStates(viewMap, viewProgress) : {},
+    [viewMap, viewProgress, isEditing]
+  );
+
+  // In the student view, hexes render the student's own progress;
+  // while previewing auto-arrange, hexes render at their proposed cells
+  const displayHexes = useMemo(() => {
+    if (!viewMap) return [];
+    if (isEditing) return layoutPreview ? applyLayout(viewMap.hexes, layoutPreview) : viewMap.hexes;
+    return viewMap.hexes.map(h => viewProgress[h.id]?.status ? { ...h, progress: viewProgress[h.id].status } : h);
+  }, [viewMap, viewProgress, isEditing, layoutPreview]);
+  const recommendations = useMemo(
+    () => viewMap && !isEditing ? getRecommendations(viewMap, viewProgress, lockStates) : [],
+    [viewMap, viewProgress, lockStates, isEditing]
+  );
+  const topPickId = recommendations[0]?.hexId;
+  const displaySelectedHex = displayHexes.find(h => h.id === selectedHexId);
+  // Hexes failing the highlight filter are dimmed, or left off the grid in hide mode
+  const filterActive = isFilterActive(filter);
+  const filteredOutIds = useMemo(
+    () => new Set(filterActive ? displayHexes.filter(h => !matchesFilter(h, filter, lockStates[h.id])).map(h => h.id) : []),
+    [displayHexes, filter, filterActive, lockStates]
+  );
+  const visibleHexes = filter.display === 'hide' ? displayHexes.filter(h => !filteredOutIds.has(h.id)) : displayHexes;
+  const isDirty = hasUnsavedChanges(currentMap, savedMap);
+  const saveFailed = saveStatus === 'error' || saveStatus === 'conflict';
+  const collisionMode = currentMap?.settings?.collisionMode || DEFAULT_COLLISION_MODE;
+
+  // Drop preview: target cells, coloured by what a drop would do to their occupants
+  const dropPreviewCells: DropPreviewCell[] = [];
+  if (dropTargets) {
+    const sizeOf = (id: string) => displayHexes.find(h => h.id === id)?.size;
+    const resolution = resolveDrop(displayHexes, dropTargets, collisionMode);
+    const takenKeys = new Set(findCollisions(displayHexes, dropTargets).map(h => cellKey(h.row, h.col)));
+    Object.entries(dropTargets).forEach(([id, cell]) => {
+      const taken = takenKeys.has(cellKey(cell.row, cell.col));
+      dropPreviewCells.push({
+        key: `target-${id}`,
+        ...cell,
+        size: sizeOf(id),
+        state: !taken ? 'free' : resolution.ok ? 'taken' : 'blocked'
+      });
+    });
+    if (resolution.ok) {
+      resolution.displaced.forEach(id => {
+        dropPreviewCells.push({ key: `displaced-${id}`, ...resolution.cells[id], size: sizeOf(id), state: 'displaced' });
+      });
+    }
+  }
+  // Roving tab stop falls back to the selection, then the first hex in reading order
+  const tabStopHexId = visibleHexes.some(h => h.id === focusedHexId)
+    ? focusedHexId
+    : selectedHexIds.find(id => visibleHexes.some(h => h.id === id))
+      || [...visibleHexes].sort((a, b) => a.row - b.row || a.col - b.col)[0]?.id;
+  const connectionSource = currentMap?.hexes.find(h => h.id === connectionSourceId);
+  const pendingTarget = currentMap?.hexes.find(h => h.id === pendingTargetId);
   
   let maxRow = 0, maxCol = 0;
-  currentMap?.hexes.forEach(h => {
+  displayHexes.forEach(h => {
     maxRow = Math.max(maxRow, h.row);
     maxCol = Math.max(maxCol, h.col);
   });
@@ -380,7 +1481,7 @@ const AppContent: React.FC = () => {
             </h1>
           </div>
           
-          {/* User info or other header items can go here */}
+          <ConnectionStatus mode={storageMode} compact onSettingsClick={() => setShowBackendSetup(true)} />
         </header>
 
         {/* ======== TOOLBAR ======== */}
@@ -436,16 +1537,57 @@ const AppContent: React.FC = () => {
                     <button onClick={() => handleAddHex('ext')} className="btn-secondary text-xs flex items-center gap-1">
                       <Plus size={14} /> Ext
                     </button>
+                    <button 
+                      onClick={() => connectionMode ? exitConnectionMode() : enterConnectionMode(selectedHexId)} 
+                      className={`btn-secondary text-xs flex items-center gap-1 ${connectionMode ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : ''}`}
+                      title="Connect hexes (Esc to exit)"
+                    >
+                      <Link2 size={14} /> Connect
+                    </button>
+                    <button 
+                      onClick={handlePreviewLayout} 
+                      className={`btn-secondary text-xs flex items-center gap-1 ${layoutPreview ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : ''}`}
+                      title="Auto-arrange hexes from their connections"
+                    >
+                      <Wand2 size={14} /> Arrange
+                    </button>
+                    <button 
+                      onClick={toggleSimulation} 
+                      className={`btn-secondary text-xs flex items-center gap-1 ${simulating ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : ''}`}
+                      title="Preview the map as a hypothetical student"
+                    >
+                      <FlaskConical size={14} /> Preview
+                    </button>
                     <div className="h-6 w-px bg-slate-300 mx-1 hidden sm:block"></div>
                   </>
                 )}
                 
-                <button onClick={() => init()} className="btn-secondary text-xs" title="Reload">
+                <button 
+                  onClick={handleUndo} 
+                  disabled={history.past.length === 0}
+                  className="btn-secondary text-xs disabled:opacity-40" 
+                  title={history.past.length ? `Undo ${history.past[history.past.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+                >
+                  <Undo2 size={14} />
+                </button>
+                <button 
+                  onClick={handleRedo} 
+                  disabled={history.future.length === 0}
+                  className="btn-secondary text-xs disabled:opacity-40" 
+                  title={history.future.length ? `Redo ${history.future[0].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+                >
+                  <Redo2 size={14} />
+                </button>
+                <button onClick={() => { if (confirmLeaveUnsaved()) init(); }} className="btn-secondary text-xs" title="Reload">
                   <RefreshCw size={14} />
                 </button>
                 <button onClick={handleSave} className="btn-primary text-xs flex items-center gap-1 bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded-md shadow-sm transition-colors">
                   <Save size={14} /> Save
                 </button>
+                <span className={`text-[10px] font-semibold flex items-center gap-1 ${saveFailed ? 'text-red-600' : isDirty ? 'text-amber-600' : 'text-slate-400'}`}>
+                  <span className={`w-1.5 h-1.5 rounded-full ${saveFailed ? 'bg-red-500' : isDirty ? 'bg-amber-500' : 'bg-emerald-500'}`} />
+                  {saveStatus === 'saving' ? 'Saving...' : saveStatus === 'conflict' ? 'Conflict' : saveStatus === 'error' ? 'Save failed' : isDirty ? 'Unsaved' : 'Saved'}
+                </span>
 
                 {/* Assignment controls */}
                 {canAssign && (
@@ -474,6 +1616,17 @@ const AppContent: React.FC = () => {
                 <button onClick={() => setShowDashboard(!showDashboard)} className={`btn-secondary text-xs ${showDashboard ? 'bg-indigo-50 border-indigo-200' : ''}`} title="Dashboard">
                   <PieChart size={14} />
                 </button>
+                <button onClick={() => setShowValidation(!showValidation)} className={`btn-secondary text-xs ${showValidation ? 'bg-indigo-50 border-indigo-200' : ''}`} title="Check Map">
+                  <ShieldCheck size={14} />
+                </button>
+                <button onClick={() => setShowHistory(!showHistory)} className={`btn-secondary text-xs ${showHistory ? 'bg-indigo-50 border-indigo-200' : ''}`} title="Version History">
+                  <History size={14} />
+                </button>
+                {isEditing && (
+                  <button onClick={() => setShowRegions(!showRegions)} className={`btn-secondary text-xs ${showRegions ? 'bg-indigo-50 border-indigo-200' : ''}`} title="Regions">
+                    <Group size={14} />
+                  </button>
+                )}
 
                 <div className="h-6 w-px bg-slate-300 mx-1 hidden sm:block"></div>
 
@@ -496,13 +1649,91 @@ const AppContent: React.FC = () => {
         </div>
 
         {/* Filters row */}
-        <div className="bg-slate-50 px-4 py-2 border-b border-slate-200 flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-slate-600">
-          <span className="font-bold flex items-center gap-1"><Filter size={12}/> Highlight:</span>
-          <label className="flex items-center gap-1 cursor-pointer">
-            <input type="checkbox" checked={filters.linkedOnly} onChange={e => setFilters({...filters, linkedOnly: e.target.checked})} className="rounded text-indigo-600 focus:ring-indigo-500" />
-            Linked Only
-          </label>
-        </div>
+        <FilterBar
+          filter={filter}
+          onChange={setFilter}
+          map={currentMap}
+          curriculum={curriculum}
+          presets={currentMap?.settings?.filterPresets || []}
+          onSavePreset={canEdit && currentMap ? handleSaveFilterPreset : undefined}
+          onDeletePreset={canEdit && currentMap ? handleDeleteFilterPreset : undefined}
+        >
+          {currentMap && (
+            <MapSearch
+              hexes={displayHexes}
+              query={searchQuery}
+              onQueryChange={setSearchQuery}
+              onJump={jumpToHex}
+              className="ml-auto"
+            />
+          )}
+
+          {isEditing && currentMap && (
+            <label className="flex items-center gap-1" title="What happens when a hex is dropped onto another hex">
+              <span className="font-bold">On drop:</span>
+              <select
+                value={collisionMode}
+                onChange={e => setCollisionMode(e.target.value as CollisionMode)}
+                className="text-xs py-0.5 pl-1.5 pr-6 border-slate-300 rounded"
+              >
+                {(Object.keys(COLLISION_MODE_LABELS) as CollisionMode[]).map(mode => (
+                  <option key={mode} value={mode}>{COLLISION_MODE_LABELS[mode]}</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </FilterBar>
+
+        {/* Template palette */}
+        {isEditing && viewMode === 'map' && currentMap && !layoutPreview && (
+          <TemplatePalette templates={templates} onAdd={(t) => handleAddFromTemplate(t)} />
+        )}
+
+        {/* Draft recovery banner */}
+        {recoverableDraft && canEdit && currentMap?.mapId === recoverableDraft.map.mapId && (
+          <div className="bg-amber-500 text-white px-4 py-1.5 flex items-center justify-between text-xs">
+            <span>Found unsaved changes to this map from {new Date(recoverableDraft.savedAt).toLocaleString()}.</span>
+            <div className="flex items-center gap-3 font-semibold">
+              <button onClick={handleRestoreDraft} className="bg-white text-amber-700 px-2 py-0.5 rounded hover:bg-amber-50">Restore</button>
+              <button onClick={handleDiscardDraft} className="hover:text-amber-100">Discard</button>
+            </div>
+          </div>
+        )}
+
+        {/* Connection mode banner */}
+        {connectionMode && viewMode === 'map' && (
+          <div className="bg-indigo-600 text-white px-4 py-1.5 flex items-center justify-between text-xs">
+            <span>
+              {connectionSource 
+                ? <>Connecting from <b>{connectionSource.label}</b> — click hexes to add or remove connections, or click the source again to change it.</>
+                : 'Connection mode — click a hex to choose the source.'}
+            </span>
+            <button onClick={exitConnectionMode} className="flex items-center gap-1 font-semibold hover:text-indigo-200">
+              <X size={14} /> Done (Esc)
+            </button>
+          </div>
+        )}
+
+        {/* Simulator banner */}
+        {isSimulating && viewMode === 'map' && (
+          <div className="bg-amber-500 text-white px-4 py-1.5 flex items-center justify-between text-xs">
+            <span>Previewing as a student — set progress and scores to see how the map unlocks and branches. Nothing is saved.</span>
+            <button onClick={toggleSimulation} className="flex items-center gap-1 font-semibold hover:text-amber-100">
+              <X size={14} /> Exit preview
+            </button>
+          </div>
+        )}
+
+        {/* Auto-arrange banner */}
+        {layoutPreview && viewMode === 'map' && builderMode && (
+          <div className="bg-indigo-600 text-white px-4 py-1.5 flex items-center justify-between text-xs">
+            <span>Previewing auto-arrange — drag hexes to adjust, then apply. Pinned hexes stay put.</span>
+            <div className="flex items-center gap-3 font-semibold">
+              <button onClick={handleApplyLayout} className="bg-white text-indigo-700 px-2 py-0.5 rounded hover:bg-indigo-50">Apply</button>
+              <button onClick={() => setLayoutPreview(null)} className="hover:text-indigo-200">Cancel</button>
+            </div>
+          </div>
+        )}
 
         {/* ======== MAIN CONTENT CONTAINER ======== */}
         <div className="flex-1 overflow-hidden relative p-4">
@@ -511,40 +1742,153 @@ const AppContent: React.FC = () => {
             {viewMode === 'map' ? (
               <>
                 {/* Map Grid */}
-                <div className="flex-1 map-grid-bg rounded-xl border border-slate-200 overflow-auto relative shadow-inner min-h-[300px]" ref={mapGridRef}>
-                  {currentMap ? (
-                    <div 
-                      className="relative transition-all duration-300"
-                      style={{ width: gridWidth, height: gridHeight }}
-                    >
-                      <h2 className="absolute top-4 left-6 text-xl font-bold text-slate-400 pointer-events-none z-0">
-                        {currentMap.title}
-                      </h2>
-
-                      {currentMap.hexes.map((hex) => (
-                        <HexNode 
-                          key={hex.id}
-                          hex={hex}
-                          gridMetrics={HEX_METRICS}
-                          isSelected={hex.id === selectedHexId}
-                          isBuilderMode={builderMode && canEdit}
-                          isConnectionMode={false}
-                          onSelect={(h) => setSelectedHexId(h.id)}
-                          onPositionChange={moveHex}
-                          onConnectionClick={() => {}}
-                          filters={filters}
-                        />
-                      ))}
+                <div className="flex-1 relative min-h-[300px]">
+                  <div
+                    className={`absolute inset-0 map-grid-bg rounded-xl border border-slate-200 overflow-auto shadow-inner ${panMode ? (panStart ? 'cursor-grabbing' : 'cursor-grab') : ''}`}
+                    ref={mapGridRef}
+                    style={{ touchAction: 'none' }}
+                    onScroll={syncViewport}
+                    onPointerDownCapture={handleGridPointerDownCapture}
+                    onClickCapture={(e) => { if (panMode) e.stopPropagation(); }}
+                  >
+                    {currentMap ? (
+                      <div className="relative" style={{ width: gridWidth * zoom, height: gridHeight * zoom }}>
+                        <div 
+                          className="absolute top-0 left-0 transition-[width,height] duration-300"
+                          style={{ width: gridWidth, height: gridHeight, transform: `scale(${zoom})`, transformOrigin: '0 0' }}
+                          ref={gridContentRef}
+                          role="group"
+                          aria-label={`${currentMap.title} map. Use arrow keys to move between hexes${isEditing ? ', Alt+arrow to move the selected hex, Delete to remove it' : ''}.`}
+                          onPointerDown={handleGridPointerDown}
+                          onPointerMove={handleGridPointerMove}
+                          onPointerLeave={() => { pointerCellRef.current = null; }}
+                          onDragOver={handleGridDragOver}
+                          onDrop={handleGridDrop}
+                          onClick={() => setPendingTargetId(null)}
+                        >
+                          <h2 className="absolute top-4 left-6 text-xl font-bold text-slate-400 pointer-events-none z-0">
+                            {currentMap.title}
+                          </h2>
+
+                          <RegionLayer
+                            regions={currentMap.regions || []}
+                            hexes={visibleHexes}
+                            gridMetrics={HEX_METRICS}
+                            width={gridWidth}
+                            height={gridHeight}
+                            dragPositions={dragPositions}
+                            dimmedRegionIds={filterActive
+                              ? (currentMap.regions || []).map(r => r.id).filter(id => !visibleHexes.some(h => h.regionId === id && !filteredOutIds.has(h.id)))
+                              : []}
+                          />
 
-                      {currentMap.hexes.length === 0 && (
-                        <div className="absolute inset-0 flex items-center justify-center text-slate-400">
-                          {builderMode && canEdit ? 'Click "+ Core" to add your first hex' : 'This map is empty'}
+                          <ConnectionLayer
+                            hexes={visibleHexes}
+                            gridMetrics={HEX_METRICS}
+                            width={gridWidth}
+                            height={gridHeight}
+                            dragPositions={dragPositions}
+                          />
+
+                          {dropPreviewCells.length > 0 && (
+                            <DropPreview
+                              cells={dropPreviewCells}
+                              gridMetrics={HEX_METRICS}
+                              width={gridWidth}
+                              height={gridHeight}
+                            />
+                          )}
+
+                          {visibleHexes.map((hex) => (
+                            <HexNode 
+                              key={hex.id}
+                              hex={hex}
+                              lockState={lockStates[hex.id]}
+                              isRecommended={hex.id === topPickId}
+                              gridMetrics={HEX_METRICS}
+                              isSelected={selectedHexIds.includes(hex.id)}
+                              isBuilderMode={isEditing}
+                              isConnectionMode={connectionMode}
+                              connectionRole={
+                                hex.id === connectionSourceId ? 'source'
+                                : connectionSource?.connections?.some(c => c.targetHexId === hex.id) ? 'linked'
+                                : null
+                              }
+                              onSelect={handleHexSelect}
+                              onPositionChange={moveHex}
+                              onConnectionClick={handleConnectionClick}
+                              onDragMove={handleDragMove}
+                              zoom={zoom}
+                              externalPosition={dragPositions[hex.id]}
+                              isFocusTarget={hex.id === tabStopHexId}
+                              onFocusHex={(h) => setFocusedHexId(h.id)}
+                              onNavigate={handleHexNavigate}
+                              onRemove={handleHexRemove}
+                              isDimmed={filteredOutIds.has(hex.id)}
+                              isPulsing={hex.id === pulseHexId}
+                            />
+                          ))}
+
+                          {selectionBox && (
+                            <div
+                              className="absolute border border-indigo-400 bg-indigo-100/30 pointer-events-none z-40"
+                              style={{
+                                left: Math.min(selectionBox.startX, selectionBox.x),
+                                top: Math.min(selectionBox.startY, selectionBox.y),
+                                width: Math.abs(selectionBox.x - selectionBox.startX),
+                                height: Math.abs(selectionBox.y - selectionBox.startY)
+                              }}
+                            />
+                          )}
+
+                          {connectionSource && pendingTarget && (
+                            <ConnectionTypePopover
+                              position={{
+                                x: getHexCenter(pendingTarget, HEX_METRICS).x,
+                                y: getBasePosition(pendingTarget.row, pendingTarget.col, HEX_METRICS).y + getHexDimensions(pendingTarget.size, HEX_METRICS).height
+                              }}
+                              sourceLabel={connectionSource.label}
+                              targetLabel={pendingTarget.label}
+                              onSelect={confirmConnection}
+                              onCancel={() => setPendingTargetId(null)}
+                            />
+                          )}
+
+                          {currentMap.hexes.length === 0 && (
+                            <div className="absolute inset-0 flex items-center justify-center text-slate-400">
+                              {isEditing ? 'Click "+ Core" to add your first hex' : 'This map is empty'}
+                            </div>
+                          )}
                         </div>
-                      )}
-                    </div>
-                  ) : (
-                    <div className="flex items-center justify-center h-full text-slate-400">
-                      {canEdit ? 'Select or Create a Map' : 'No maps assigned to you.'}
+                      </div>
+                    ) : (
+                      <div className="flex items-center justify-center h-full text-slate-400">
+                        {canEdit ? 'Select or Create a Map' : 'No maps assigned to you.'}
+                      </div>
+                    )}
+                  </div>
+
+                  {currentMap && (
+                    <div className="absolute bottom-3 right-3 z-40 flex flex-col items-end gap-2">
+                      <div className="hidden sm:block">
+                        <Minimap
+                          hexes={visibleHexes}
+                          gridMetrics={HEX_METRICS}
+                          gridWidth={gridWidth}
+                          gridHeight={gridHeight}
+                          viewport={viewport}
+                          onNavigate={centerViewOn}
+                        />
+                      </div>
+                      <ZoomControls
+                        zoom={zoom}
+                        panMode={panMode}
+                        onZoomIn={() => zoomAround(zoom * ZOOM_STEP)}
+                        onZoomOut={() => zoomAround(zoom / ZOOM_STEP)}
+                        onReset={() => zoomAround(1)}
+                        onFit={fitToContent}
+                        onTogglePan={() => setPanMode(!panMode)}
+                      />
                     </div>
                   )}
                 </div>
@@ -554,29 +1898,115 @@ const AppContent: React.FC = () => {
                   <DashboardPanel map={currentMap} onClose={() => setShowDashboard(false)} />
                 )}
 
+                {/* Save Conflict Overlay */}
+                {conflict && (
+                  <ConflictPanel
+                    local={conflict.local}
+                    remote={conflict.remote}
+                    base={conflict.base}
+                    onResolve={handleResolveConflict}
+                    onClose={() => setConflict(null)}
+                  />
+                )}
+
+                {/* Validation Overlay */}
+                {showValidation && currentMap && canEdit && (
+                  <ValidationPanel 
+                    map={currentMap} 
+                    onClose={() => setShowValidation(false)} 
+                    onFix={handleApplyFix}
+                    onSelectHex={(hexId) => setSelectedHexId(hexId)}
+                  />
+                )}
+
+                {/* Version History Overlay */}
+                {showHistory && currentMap && canEdit && (
+                  <HistoryPanel
+                    map={currentMap}
+                    onClose={() => setShowHistory(false)}
+                    onRestore={handleRestoreRevision}
+                    onBranch={canCreate ? handleBranchRevision : undefined}
+                  />
+                )}
+
+                {/* Regions Overlay */}
+                {showRegions && currentMap && isEditing && (
+                  <RegionsPanel
+                    regions={currentMap.regions || []}
+                    hexes={currentMap.hexes}
+                    selectedHexIds={selectedHexIds}
+                    onAdd={handleAddRegion}
+                    onUpdate={updateRegion}
+                    onDelete={handleDeleteRegion}
+                    onAssign={handleAssignRegion}
+                    onSelectMembers={selectRegionMembers}
+                    onClose={() => setShowRegions(false)}
+                  />
+                )}
+
+                {/* Simulator controls sit beside the normal student panel */}
+                {isSimulating && viewMap && (
+                  <div className="hidden md:block w-72 shrink-0 h-full overflow-hidden rounded-xl border border-slate-200 shadow-sm p-4 bg-white">
+                    <SimulatorPanel
+                      map={viewMap}
+                      progress={simulatedProgress}
+                      lockStates={lockStates}
+                      onChange={handleSimulatedChange}
+                      onReset={() => setSimulatedProgress({})}
+                      onSelectHex={setSelectedHexId}
+                    />
+                  </div>
+                )}
+
                 {/* Side Panel - Editor for teachers, Student panel for students */}
-                {builderMode && canEdit && selectedHex ? (
+                {isEditing && selectedHexes.length > 1 ? (
+                  <div className="hidden md:block w-80 shrink-0 h-full overflow-hidden rounded-xl border border-slate-200 shadow-sm">
+                    <BulkEditorPanel
+                      hexes={selectedHexes}
+                      onChange={updateHexes}
+                      onDelete={deleteHexes}
+                      onClearSelection={() => setSelectedHexIds([])}
+                      curriculum={curriculum}
+                      mapCourseId={currentMap?.courseId}
+                      mapUnitId={currentMap?.unitId}
+                      regions={currentMap?.regions}
+                    />
+                  </div>
+                ) : isEditing && selectedHex ? (
                   <div className="hidden md:block w-80 shrink-0 h-full overflow-hidden rounded-xl border border-slate-200 shadow-sm">
                     <EditorPanel 
                       hex={selectedHex} 
                       onChange={updateHex} 
                       onDelete={deleteHex}
                       curriculum={curriculum}
+                      availableTargets={currentMap?.hexes || []}
+                      onEnterConnectionMode={() => enterConnectionMode(selectedHex.id)}
+                      onSaveAsTemplate={handleSaveTemplate}
+                      mapCourseId={currentMap?.courseId}
+                      mapUnitId={currentMap?.unitId}
+                      regions={currentMap?.regions}
                     />
                   </div>
-                ) : selectedHex && currentMap ? (
+                ) : displaySelectedHex && currentMap ? (
                   <div className="hidden md:block w-80 shrink-0 h-full overflow-hidden rounded-xl border border-slate-200 shadow-sm">
                     <StudentPanel 
-                      hex={selectedHex} 
+                      hex={displaySelectedHex} 
+                      lockState={lockStates[displaySelectedHex.id]}
+                      recommendations={recommendations}
+                      onSelectHex={setSelectedHexId}
                       teacherEmail={currentMap.teacherEmail}
                       mapTitle={currentMap.title}
                       onUpdateProgress={handleProgressUpdate}
                     />
                   </div>
-                ) : builderMode && canEdit ? (
+                ) : isEditing ? (
                   <div className="hidden md:flex bg-white border border-dashed rounded-xl p-6 w-72 flex-shrink-0 ml-4 items-center justify-center text-center text-slate-400 text-sm italic">
                     Select a hex to edit properties
                   </div>
+                ) : currentMap && currentMap.hexes.length > 0 ? (
+                  <div className="hidden md:block w-72 shrink-0">
+                    <NextUpCard recommendations={recommendations} onSelectHex={setSelectedHexId} />
+                  </div>
                 ) : null}
               </>
             ) : (
@@ -585,7 +2015,7 @@ const AppContent: React.FC = () => {
                 <div className="flex-1 h-full overflow-hidden rounded-xl border border-slate-200 shadow-sm bg-white">
                   <UbDPlanner 
                     map={currentMap} 
-                    onChange={setCurrentMap}
+                    onChange={(updated) => commitMap(updated, 'Edit unit plan', 'ubd')}
                     isBuilderMode={builderMode && canEdit}
                     isFullScreen={true}
                   />
@@ -0,0 +1,209 @@
+import React, { useMemo, useState } from 'react';
+import { Hex, LearningMap } from '../types';
+import {
+  diffMaps, mergeMaps, changedHexFields, defaultSide, fieldChoiceKey, hasConflicts,
+  ConflictChange, HexConflictRow, MergeSide
+} from '../services/conflicts';
+import { X, GitMerge, AlertTriangle } from 'lucide-react';
+
+interface ConflictPanelProps {
+  local: LearningMap;
+  remote: LearningMap;
+  base: LearningMap | null; // The version both edits started from, when known
+  onResolve: (map: LearningMap) => void;
+  onClose: () => void;
+}
+
+const CHANGE_STYLES: Record<ConflictChange, string> = {
+  unchanged: 'bg-slate-50 border-slate-200',
+  local: 'bg-indigo-50/50 border-indigo-100',
+  remote: 'bg-sky-50/50 border-sky-100',
+  both: 'bg-amber-50 border-amber-200',
+};
+
+const verb = (base?: Hex, version?: Hex) => !version ? 'deleted' : !base ? 'added' : 'edited';
+
+function describeRow(row: HexConflictRow, hasBase: boolean): string {
+  if (!hasBase) return !row.local ? 'Only on theirs' : !row.remote ? 'Only on mine' : 'Differs';
+  if (row.change === 'local') return `You ${verb(row.base, row.local)} this`;
+  if (row.change === 'remote') return `They ${verb(row.base, row.remote)} this`;
+  return `You ${verb(row.base, row.local)} this, they ${verb(row.base, row.remote)} it`;
+}
+
+const MAX_VALUE_LENGTH = 80;
+
+function formatValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  let text: string;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '—';
+    text = value.map(v => typeof v === 'object' ? (v.title || v.label || v.targetHexId || JSON.stringify(v)) : String(v)).join(', ');
+  } else if (typeof value === 'object') {
+    text = JSON.stringify(value);
+  } else {
+    text = String(value);
+  }
+  return text.length > MAX_VALUE_LENGTH ? text.slice(0, MAX_VALUE_LENGTH) + '…' : text;
+}
+
+const cellValue = (hex: Hex | undefined, field: keyof Hex) => hex ? formatValue(hex[field]) : 'Not on map';
+
+interface SideToggleProps {
+  value: MergeSide;
+  onChange: (side: MergeSide) => void;
+}
+
+const SideToggle: React.FC<SideToggleProps> = ({ value, onChange }) => (
+  <div className="flex rounded border border-slate-300 overflow-hidden text-[10px] font-semibold shrink-0">
+    {(['local', 'remote'] as const).map(side => (
+      <button
+        key={side}
+        onClick={() => onChange(side)}
+        aria-pressed={value === side}
+        className={`px-2 py-0.5 ${value === side ? 'bg-indigo-600 text-white' : 'bg-white text-slate-600 hover:bg-slate-50'}`}
+      >
+        {side === 'local' ? 'Mine' : 'Theirs'}
+      </button>
+    ))}
+  </div>
+);
+
+export const ConflictPanel: React.FC<ConflictPanelProps> = ({ local, remote, base, onResolve, onClose }) => {
+  const diff = useMemo(() => diffMaps(base, local, remote), [base, local, remote]);
+  const [choices, setChoices] = useState<Record<string, MergeSide>>({});
+
+  const changedFields = diff.fields.filter(f => f.change !== 'unchanged');
+  const changedHexes = diff.hexes.filter(h => h.change !== 'unchanged');
+  const conflicting = hasConflicts(diff);
+
+  const choose = (key: string, side: MergeSide) => setChoices(prev => ({ ...prev, [key]: side }));
+  const chooseAll = (side: MergeSide) => {
+    const all: Record<string, MergeSide> = {};
+    changedFields.forEach(f => { all[fieldChoiceKey(f.field)] = side; });
+    changedHexes.forEach(h => { all[h.hexId] = side; });
+    return all;
+  };
+
+  const savedBy = remote.meta?.updatedBy || 'another editor';
+  const savedAt = remote.meta?.updatedAt ? new Date(remote.meta.updatedAt).toLocaleString() : null;
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-slate-900/50 backdrop-blur-sm animate-in fade-in" onClick={onClose}>
+      <div className="bg-white w-full max-w-4xl max-h-[90vh] rounded-xl shadow-2xl flex flex-col overflow-hidden" onClick={e => e.stopPropagation()}>
+        <div className="px-6 py-4 border-b border-slate-200 flex justify-between items-start bg-slate-50">
+          <div>
+            <h3 className="font-bold text-slate-800 flex items-center gap-2">
+              <GitMerge size={18} className="text-indigo-600" /> Resolve Save Conflict
+            </h3>
+            <p className="text-xs text-slate-500 mt-1">
+              "{remote.title}" was saved by {savedBy}{savedAt ? ` at ${savedAt}` : ''} after you opened it.
+              Pick which version of each change to keep.
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-4 space-y-4 flex-1 text-xs">
+          {!base && (
+            <div className="flex items-start gap-2 bg-amber-50 border border-amber-200 text-amber-800 rounded-lg p-2.5">
+              <AlertTriangle size={14} className="shrink-0 mt-0.5" />
+              The version you started from isn't available, so every difference is shown as a conflict.
+            </div>
+          )}
+
+          {changedFields.length === 0 && changedHexes.length === 0 && (
+            <div className="text-center py-8 text-emerald-600 font-medium">
+              Both versions have the same content.
+            </div>
+          )}
+
+          {changedFields.length > 0 && (
+            <section>
+              <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Map</h4>
+              <div className="space-y-1.5">
+                {changedFields.map(row => (
+                  <div key={row.field} className={`flex items-center justify-between gap-2 rounded-lg border px-3 py-2 ${CHANGE_STYLES[row.change]}`}>
+                    <span className="font-semibold text-slate-700">{row.label}</span>
+                    <span className="text-slate-500 flex-1">
+                      {row.change === 'both' ? 'Changed by both' : row.change === 'local' ? 'Changed by you' : 'Changed by them'}
+                    </span>
+                    <SideToggle
+                      value={choices[fieldChoiceKey(row.field)] || defaultSide(row.change)}
+                      onChange={side => choose(fieldChoiceKey(row.field), side)}
+                    />
+                  </div>
+                ))}
+              </div>
+            </section>
+          )}
+
+          {changedHexes.length > 0 && (
+            <section>
+              <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Hexes ({changedHexes.length})</h4>
+              <div className="space-y-2">
+                {changedHexes.map(row => {
+                  const fields = changedHexFields(row);
+                  return (
+                    <div key={row.hexId} className={`rounded-lg border p-2.5 ${CHANGE_STYLES[row.change]}`}>
+                      <div className="flex items-center justify-between gap-2 mb-2">
+                        <div className="min-w-0">
+                          <span className="font-bold text-slate-800">{row.label}</span>
+                          <span className="text-slate-500 ml-2">{describeRow(row, !!base)}</span>
+                        </div>
+                        <SideToggle
+                          value={choices[row.hexId] || defaultSide(row.change)}
+                          onChange={side => choose(row.hexId, side)}
+                        />
+                      </div>
+                      {fields.length > 0 && (
+                        <table className="w-full table-fixed text-[11px]">
+                          <thead>
+                            <tr className="text-left text-slate-400">
+                              <th className="w-28 font-semibold pb-1">Field</th>
+                              <th className="font-semibold pb-1">Base</th>
+                              <th className="font-semibold pb-1">Mine</th>
+                              <th className="font-semibold pb-1">Theirs</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {fields.map(field => (
+                              <tr key={field} className="align-top border-t border-slate-200/60">
+                                <td className="py-1 pr-2 font-mono text-slate-500">{field}</td>
+                                <td className="py-1 pr-2 text-slate-500 break-words">{base ? cellValue(row.base, field) : '?'}</td>
+                                <td className="py-1 pr-2 text-slate-800 break-words">{cellValue(row.local, field)}</td>
+                                <td className="py-1 pr-2 text-slate-800 break-words">{cellValue(row.remote, field)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
+          )}
+        </div>
+
+        <div className="px-6 py-3 border-t border-slate-200 flex flex-wrap items-center justify-between gap-2 bg-slate-50">
+          <span className="text-xs text-slate-500">
+            {conflicting ? 'Changes made on both sides default to yours.' : 'No overlapping changes: merging keeps both.'}
+          </span>
+          <div className="flex gap-2">
+            <button onClick={() => onResolve(mergeMaps(local, remote, diff, chooseAll('remote')))} className="text-xs font-semibold bg-white border border-slate-300 text-slate-700 px-3 py-1.5 rounded-md hover:bg-slate-50">
+              Take theirs
+            </button>
+            <button onClick={() => onResolve(mergeMaps(local, remote, diff, chooseAll('local')))} className="text-xs font-semibold bg-white border border-slate-300 text-slate-700 px-3 py-1.5 rounded-md hover:bg-slate-50">
+              Keep mine
+            </button>
+            <button onClick={() => onResolve(mergeMaps(local, remote, diff, choices))} className="text-xs font-semibold flex items-center gap-1 bg-indigo-600 hover:bg-indigo-700 text-white px-3 py-1.5 rounded-md shadow-sm transition-colors">
+              <GitMerge size={14} /> Merge
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
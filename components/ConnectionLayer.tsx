@@ -0,0 +1,122 @@
+import React from 'react';
+import { Hex, ConnectionType } from '../types';
+import { GridMetrics, Point, getHexCenter, getHexDimensions } from '../services/grid';
+
+interface ConnectionLayerProps {
+  hexes: Hex[];
+  gridMetrics: GridMetrics;
+  width: number;
+  height: number;
+  dragPositions?: Record<string, Point>;
+}
+
+// Visual style per connection type
+export const CONNECTION_STYLES: Record<ConnectionType, { stroke: string; dash?: string; label: string }> = {
+  default: { stroke: '#64748b', label: 'Direct' },
+  conditional: { stroke: '#d97706', dash: '8 5', label: 'If...' },
+  remedial: { stroke: '#dc2626', dash: '3 4', label: 'Support' },
+  extension: { stroke: '#059669', dash: '12 4 3 4', label: 'Extend' },
+};
+
+export const ConnectionLayer: React.FC<ConnectionLayerProps> = ({
+  hexes,
+  gridMetrics,
+  width,
+  height,
+  dragPositions = {}
+}) => {
+  const byId = new Map(hexes.map(h => [h.id, h]));
+
+  // Trim the line so the arrowhead lands on the hex edge rather than its center
+  const getInset = (hex: Hex) => getHexDimensions(hex.size, gridMetrics).height * 0.42;
+
+  const edges = hexes.flatMap(source => (source.connections || []).map((conn, idx) => {
+    const target = byId.get(conn.targetHexId);
+    if (!target || target.id === source.id) return null;
+
+    const from = getHexCenter(source, gridMetrics, dragPositions[source.id]);
+    const to = getHexCenter(target, gridMetrics, dragPositions[target.id]);
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const len = Math.hypot(dx, dy);
+    const startInset = getInset(source);
+    const endInset = getInset(target);
+    if (len <= startInset + endInset) return null;
+
+    const ux = dx / len;
+    const uy = dy / len;
+    const type = CONNECTION_STYLES[conn.type] ? conn.type : 'default';
+
+    return {
+      key: `${source.id}-${conn.targetHexId}-${idx}`,
+      type,
+      label: conn.label,
+      x1: from.x + ux * startInset,
+      y1: from.y + uy * startInset,
+      x2: to.x - ux * endInset,
+      y2: to.y - uy * endInset,
+    };
+  })).filter((e): e is NonNullable<typeof e> => e !== null);
+
+  return (
+    <svg
+      className="absolute inset-0 pointer-events-none z-0"
+      width={width}
+      height={height}
+    >
+      <defs>
+        {(Object.keys(CONNECTION_STYLES) as ConnectionType[]).map(type => (
+          <marker
+            key={type}
+            id={`arrow-${type}`}
+            viewBox="0 0 10 10"
+            refX="9"
+            refY="5"
+            markerWidth="7"
+            markerHeight="7"
+            orient="auto-start-reverse"
+          >
+            <path d="M 0 0 L 10 5 L 0 10 z" fill={CONNECTION_STYLES[type].stroke} />
+          </marker>
+        ))}
+      </defs>
+
+      {edges.map(edge => {
+        const style = CONNECTION_STYLES[edge.type];
+        const midX = (edge.x1 + edge.x2) / 2;
+        const midY = (edge.y1 + edge.y2) / 2;
+        return (
+          <g key={edge.key}>
+            <line
+              x1={edge.x1}
+              y1={edge.y1}
+              x2={edge.x2}
+              y2={edge.y2}
+              stroke={style.stroke}
+              strokeWidth={2}
+              strokeDasharray={style.dash}
+              strokeLinecap="round"
+              markerEnd={`url(#arrow-${edge.type})`}
+              opacity={0.85}
+            />
+            {edge.label && (
+              <text
+                x={midX}
+                y={midY - 4}
+                textAnchor="middle"
+                fontSize={10}
+                fontWeight={600}
+                fill={style.stroke}
+                stroke="#ffffff"
+                strokeWidth={3}
+                paintOrder="stroke"
+              >
+                {edge.label}
+              </text>
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
@@ -1,7 +1,8 @@
 
 import React, { useState, useEffect } from 'react';
 import { apiService, ConnectionInfo, ConnectionState } from '../services/api';
-import { Cloud, CloudOff, Loader2, AlertTriangle, Database, Wifi, WifiOff, Settings } from 'lucide-react';
+import { getPendingCount, subscribeToOutbox } from '../services/outbox';
+import { Cloud, CloudOff, Loader2, AlertTriangle, Database, Wifi, WifiOff, Settings, RefreshCw } from 'lucide-react';
 
 interface ConnectionStatusProps {
   mode: 'mock' | 'api';
@@ -15,6 +16,8 @@ export const ConnectionStatus: React.FC<ConnectionStatusProps> = ({
   compact = false 
 }) => {
   const [connectionInfo, setConnectionInfo] = useState<ConnectionInfo>(apiService.getConnectionInfo());
+  // Writes queued in the outbox, waiting for the backend
+  const [pendingCount, setPendingCount] = useState(getPendingCount());
 
   useEffect(() => {
     // Subscribe to connection info changes
@@ -22,6 +25,10 @@ export const ConnectionStatus: React.FC<ConnectionStatusProps> = ({
     return unsubscribe;
   }, []);
 
+  useEffect(() => subscribeToOutbox(setPendingCount), []);
+
+  const pendingLabel = `${pendingCount} change${pendingCount === 1 ? '' : 's'} waiting to sync`;
+
   const getStatusConfig = (state: ConnectionState, isApiMode: boolean) => {
     if (!isApiMode) {
       return {
@@ -99,11 +106,16 @@ export const ConnectionStatus: React.FC<ConnectionStatusProps> = ({
       <button
         onClick={onSettingsClick}
         className={`flex items-center gap-2 px-2 py-1 rounded-full text-xs font-medium ${config.bgColor} ${config.color} border ${config.borderColor} hover:opacity-80 transition-opacity`}
-        title={`${config.label}: ${config.description}`}
+        title={`${config.label}: ${config.description}${pendingCount > 0 ? ` (${pendingLabel})` : ''}`}
       >
         <span className={`w-2 h-2 rounded-full ${config.dotColor} ${config.animate ? 'animate-pulse' : ''}`} />
         <Icon className={`w-3.5 h-3.5 ${config.animate ? 'animate-spin' : ''}`} />
         <span className="hidden sm:inline">{mode === 'mock' ? 'Local' : config.label}</span>
+        {pendingCount > 0 && (
+          <span className="flex items-center gap-0.5 bg-amber-100 text-amber-800 rounded-full px-1.5 text-[10px] font-bold">
+            <RefreshCw className="w-2.5 h-2.5" /> {pendingCount}
+          </span>
+        )}
       </button>
     );
   }
@@ -122,6 +134,11 @@ export const ConnectionStatus: React.FC<ConnectionStatusProps> = ({
         <div className="text-xs text-slate-500 truncate">
           {config.description}
         </div>
+        {pendingCount > 0 && (
+          <div className="text-xs text-amber-700 font-medium flex items-center gap-1">
+            <RefreshCw className="w-3 h-3" /> {pendingLabel}
+          </div>
+        )}
       </div>
 
       {onSettingsClick && (
@@ -0,0 +1,59 @@
+import React from 'react';
+import { ConnectionType } from '../types';
+import { Point } from '../services/grid';
+import { CONNECTION_STYLES } from './ConnectionLayer';
+import { X } from 'lucide-react';
+
+interface ConnectionTypePopoverProps {
+  position: Point;
+  sourceLabel: string;
+  targetLabel: string;
+  onSelect: (type: ConnectionType) => void;
+  onCancel: () => void;
+}
+
+export const ConnectionTypePopover: React.FC<ConnectionTypePopoverProps> = ({
+  position,
+  sourceLabel,
+  targetLabel,
+  onSelect,
+  onCancel
+}) => {
+  return (
+    <div
+      className="absolute z-40 -translate-x-1/2 mt-2 bg-white rounded-lg shadow-xl border border-slate-200 p-2 w-48 animate-in fade-in duration-150"
+      style={{ left: position.x, top: position.y }}
+      onClick={e => e.stopPropagation()}
+      onMouseDown={e => e.stopPropagation()}
+    >
+      <div className="flex items-start justify-between gap-2 mb-2 px-1">
+        <div className="text-[10px] text-slate-500 leading-tight min-w-0">
+          <span className="font-semibold text-slate-700 truncate block">{sourceLabel}</span>
+          → <span className="font-semibold text-slate-700">{targetLabel}</span>
+        </div>
+        <button onClick={onCancel} className="text-slate-400 hover:text-slate-600 shrink-0" title="Cancel">
+          <X size={14} />
+        </button>
+      </div>
+      <div className="space-y-1">
+        {(Object.keys(CONNECTION_STYLES) as ConnectionType[]).map(type => (
+          <button
+            key={type}
+            onClick={() => onSelect(type)}
+            className="w-full flex items-center gap-2 text-xs px-2 py-1.5 rounded hover:bg-slate-50 text-left"
+          >
+            <svg width="24" height="8" className="shrink-0">
+              <line
+                x1="1" y1="4" x2="23" y2="4"
+                stroke={CONNECTION_STYLES[type].stroke}
+                strokeWidth="2"
+                strokeDasharray={CONNECTION_STYLES[type].dash}
+              />
+            </svg>
+            <span className="font-medium text-slate-700">{CONNECTION_STYLES[type].label}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,147 @@
+import React, { useState } from 'react';
+import { X, AlertTriangle } from 'lucide-react';
+
+export interface CurriculumOption {
+  value: string;       // What gets stored on the hex (standard code, skill label...)
+  group: string;       // Framework, cluster or category
+  description: string;
+}
+
+interface CurriculumPickerProps {
+  label?: string;
+  values: string[];
+  options: CurriculumOption[];
+  // Everything the config knows about, used to flag unknown values; defaults to `options`
+  catalog?: CurriculumOption[];
+  placeholder?: string;
+  onChange: (values: string[]) => void;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+export const CurriculumPicker: React.FC<CurriculumPickerProps> = ({
+  label,
+  values,
+  options,
+  catalog = options,
+  placeholder,
+  onChange
+}) => {
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const [highlight, setHighlight] = useState(0);
+
+  const byValue = new Map(catalog.map(o => [o.value.toLowerCase(), o]));
+  // With no curriculum configured there is nothing to pick from, so free text is allowed
+  const freeText = catalog.length === 0;
+
+  const q = query.trim().toLowerCase();
+  const suggestions = options
+    .filter(o => !values.includes(o.value))
+    .filter(o => !q || [o.value, o.group, o.description].some(f => f.toLowerCase().includes(q)))
+    // Prefix matches on the value first
+    .sort((a, b) => Number(b.value.toLowerCase().startsWith(q)) - Number(a.value.toLowerCase().startsWith(q)))
+    .slice(0, MAX_SUGGESTIONS);
+
+  const add = (value: string) => {
+    if (!value || values.includes(value)) return;
+    onChange([...values, value]);
+    setQuery('');
+    setHighlight(0);
+  };
+
+  const remove = (value: string) => onChange(values.filter(v => v !== value));
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setOpen(true);
+      setHighlight(h => Math.min(h + 1, suggestions.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlight(h => Math.max(h - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (suggestions[highlight]) add(suggestions[highlight].value);
+      else if (freeText) add(query.trim());
+    } else if (e.key === 'Backspace' && !query && values.length) {
+      remove(values[values.length - 1]);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  const unknownCount = freeText ? 0 : values.filter(v => !byValue.has(v.toLowerCase())).length;
+
+  return (
+    <div>
+      {label && <label className="block text-xs font-bold text-slate-600 mb-1.5">{label}</label>}
+
+      {values.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-1.5">
+          {values.map(value => {
+            const known = byValue.get(value.toLowerCase());
+            const unknown = !freeText && !known;
+            return (
+              <span
+                key={value}
+                className={`inline-flex items-center gap-1 text-[11px] font-medium px-1.5 py-0.5 rounded border ${
+                  unknown ? 'bg-amber-50 border-amber-300 text-amber-800' : 'bg-indigo-50 border-indigo-200 text-indigo-800'
+                }`}
+                title={unknown ? 'Not in the curriculum config; dashboard counts may miss it' : known ? `${known.group}: ${known.description}` : value}
+              >
+                {unknown && <AlertTriangle size={10} />}
+                {value}
+                <button onClick={() => remove(value)} className="hover:text-red-600" aria-label={`Remove ${value}`}>
+                  <X size={10} />
+                </button>
+              </span>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="relative">
+        <input
+          type="text"
+          className="w-full text-sm border-slate-300 rounded-md"
+          placeholder={placeholder || (freeText ? 'Type and press Enter' : 'Search...')}
+          value={query}
+          onChange={(e) => { setQuery(e.target.value); setOpen(true); setHighlight(0); }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={handleKeyDown}
+          role="combobox"
+          aria-expanded={open && suggestions.length > 0}
+        />
+        {open && suggestions.length > 0 && (
+          <ul className="absolute z-50 left-0 right-0 mt-1 bg-white border border-slate-200 rounded-md shadow-lg max-h-60 overflow-y-auto" role="listbox">
+            {suggestions.map((option, idx) => (
+              <li
+                key={option.value}
+                role="option"
+                aria-selected={idx === highlight}
+                // mousedown so the input's blur doesn't close the list first
+                onMouseDown={(e) => { e.preventDefault(); add(option.value); }}
+                onMouseEnter={() => setHighlight(idx)}
+                className={`px-2 py-1.5 cursor-pointer text-xs ${idx === highlight ? 'bg-indigo-50' : ''}`}
+              >
+                <div className="flex justify-between gap-2">
+                  <span className="font-semibold text-slate-800">{option.value}</span>
+                  <span className="text-[10px] text-slate-400 shrink-0">{option.group}</span>
+                </div>
+                <div className="text-[11px] text-slate-500 line-clamp-2">{option.description}</div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {unknownCount > 0 && (
+        <p className="text-[10px] text-amber-700 mt-1">
+          {unknownCount} value{unknownCount === 1 ? '' : 's'} not found in the curriculum config.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,7 @@
 
-import React, { useMemo } from 'react';
+import React, { useMemo, useState } from 'react';
 import { LearningMap } from '../types';
-import { computeAnalytics } from '../services/storage';
+import { computeAnalytics, computeRegionAnalytics } from '../services/storage';
 import { X, PieChart, AlertTriangle } from 'lucide-react';
 
 interface DashboardPanelProps {
@@ -10,7 +10,15 @@ interface DashboardPanelProps {
 }
 
 export const DashboardPanel: React.FC<DashboardPanelProps> = ({ map, onClose }) => {
-  const analytics = useMemo(() => computeAnalytics(map), [map]);
+  const regions = map.regions || [];
+  // '' covers the whole map; otherwise only the chosen region's hexes are counted
+  const [regionId, setRegionId] = useState('');
+  const scopedMap = useMemo(
+    () => regionId ? { ...map, hexes: map.hexes.filter(h => h.regionId === regionId) } : map,
+    [map, regionId]
+  );
+  const analytics = useMemo(() => computeAnalytics(scopedMap), [scopedMap]);
+  const regionAnalytics = useMemo(() => regions.length ? computeRegionAnalytics(map) : [], [map, regions.length]);
 
   // Limits from Teacher_Mod_02_Dashboard.html
   const MAX_STANDARDS = 20;
@@ -38,6 +46,21 @@ export const DashboardPanel: React.FC<DashboardPanelProps> = ({ map, onClose })
         </div>
 
         <div className="overflow-y-auto p-4 space-y-6 flex-1">
+            {/* Region scope */}
+            {regions.length > 0 && (
+                <label className="flex items-center gap-2 text-xs text-slate-600">
+                    <span className="font-bold">Region:</span>
+                    <select
+                        value={regionId}
+                        onChange={e => setRegionId(e.target.value)}
+                        className="flex-1 text-xs py-1 border-slate-300 rounded"
+                    >
+                        <option value="">Whole map</option>
+                        {regions.map(r => <option key={r.id} value={r.id}>{r.title}</option>)}
+                    </select>
+                </label>
+            )}
+
             {/* Summary */}
             <section>
                 <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">Map Summary</h3>
@@ -63,6 +86,44 @@ export const DashboardPanel: React.FC<DashboardPanelProps> = ({ map, onClose })
                 </div>
             </section>
 
+            {/* Regions */}
+            {!regionId && regionAnalytics.length > 0 && (
+                <section>
+                    <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">By Region</h3>
+                    <table className="w-full text-xs">
+                        <thead>
+                            <tr className="text-[10px] text-slate-400 text-right">
+                                <th className="text-left font-medium pb-1">Region</th>
+                                <th className="font-medium pb-1">Hexes</th>
+                                <th className="font-medium pb-1" title="With resources">Linked</th>
+                                <th className="font-medium pb-1">Stds</th>
+                                <th className="font-medium pb-1" title="KU / TT / C">SBAR</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {regionAnalytics.map(({ region, analytics: a }) => (
+                                <tr
+                                    key={region?.id || 'none'}
+                                    className={`border-t border-slate-100 text-right ${region ? 'cursor-pointer hover:bg-slate-50' : ''}`}
+                                    onClick={() => region && setRegionId(region.id)}
+                                >
+                                    <td className="text-left py-1">
+                                        <span className="flex items-center gap-1.5">
+                                            <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: region?.color || '#cbd5e1' }} />
+                                            <span className={`truncate ${region ? 'text-slate-700' : 'text-slate-400 italic'}`}>{region?.title || 'No region'}</span>
+                                        </span>
+                                    </td>
+                                    <td className="font-bold text-slate-800">{a.totalHexes}</td>
+                                    <td className="text-emerald-600">{a.linkedCount}</td>
+                                    <td className="text-slate-600">{a.standards.length}</td>
+                                    <td className="text-indigo-600 whitespace-nowrap">{a.countsBySBAR.K}/{a.countsBySBAR.T}/{a.countsBySBAR.C}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </section>
+            )}
+
             {/* Types */}
             <section>
                 <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">By Type</h3>
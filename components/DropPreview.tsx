@@ -0,0 +1,58 @@
+import React from 'react';
+import { HexSize } from '../types';
+import { GridMetrics, getBasePosition, getHexDimensions } from '../services/grid';
+
+export type DropCellState = 'free' | 'taken' | 'blocked' | 'displaced';
+
+export interface DropPreviewCell {
+  key: string;
+  row: number;
+  col: number;
+  size?: HexSize;
+  state: DropCellState;
+}
+
+interface DropPreviewProps {
+  cells: DropPreviewCell[];
+  gridMetrics: GridMetrics;
+  width: number;
+  height: number;
+}
+
+// free: empty target, taken: occupant will be swapped/pushed,
+// blocked: drop will be refused, displaced: where a pushed occupant ends up
+const CELL_STYLES: Record<DropCellState, { stroke: string; fill: string; dash?: string }> = {
+  free: { stroke: '#4f46e5', fill: 'rgba(79, 70, 229, 0.08)' },
+  taken: { stroke: '#d97706', fill: 'rgba(217, 119, 6, 0.12)' },
+  blocked: { stroke: '#dc2626', fill: 'rgba(220, 38, 38, 0.15)' },
+  displaced: { stroke: '#d97706', fill: 'none', dash: '6 4' },
+};
+
+export const DropPreview: React.FC<DropPreviewProps> = ({ cells, gridMetrics, width, height }) => (
+  <svg className="absolute inset-0 pointer-events-none z-20" width={width} height={height}>
+    {cells.map(cell => {
+      const pos = getBasePosition(cell.row, cell.col, gridMetrics);
+      const { width: w, height: h } = getHexDimensions(cell.size, gridMetrics);
+      const points = [
+        [pos.x + w / 2, pos.y],
+        [pos.x + w, pos.y + h / 4],
+        [pos.x + w, pos.y + h * 0.75],
+        [pos.x + w / 2, pos.y + h],
+        [pos.x, pos.y + h * 0.75],
+        [pos.x, pos.y + h / 4],
+      ].map(p => p.join(',')).join(' ');
+      const style = CELL_STYLES[cell.state];
+      return (
+        <polygon
+          key={cell.key}
+          points={points}
+          fill={style.fill}
+          stroke={style.stroke}
+          strokeWidth={3}
+          strokeDasharray={style.dash || '8 4'}
+          strokeLinejoin="round"
+        />
+      );
+    })}
+  </svg>
+);
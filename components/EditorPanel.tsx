@@ -1,8 +1,20 @@
 
 import React, { useState } from 'react';
-import { Hex, HexType, HexStatus, HexSize, HexCurriculum, CurriculumConfig, ConnectionType, HexConnection } from '../types';
+import { Hex, HexType, HexStatus, HexSize, HexCurriculum, CurriculumConfig, CurriculumStandard, ConnectionType, HexConnection, HexResource, HexResourceType, MapRegion } from '../types';
+import { parseRule, isRuleConnection } from '../services/rules';
+import { CurriculumPicker, CurriculumOption } from './CurriculumPicker';
 import { Plus, X, ArrowRight, Settings, MousePointerClick } from 'lucide-react';
 
+const toStandardOption = (s: CurriculumStandard): CurriculumOption => ({
+  value: s.code,
+  group: s.framework,
+  description: s.description
+});
+
+// Standards tagged with another course or unit than the map's
+const isInScope = (s: CurriculumStandard, courseId?: string, unitId?: string) =>
+  (!courseId || !s.courseId || s.courseId === courseId) && (!unitId || !s.unitId || s.unitId === unitId);
+
 interface EditorPanelProps {
   hex: Hex;
   onChange: (updatedHex: Hex) => void;
@@ -10,6 +22,10 @@ interface EditorPanelProps {
   curriculum: CurriculumConfig | null;
   availableTargets?: Hex[];
   onEnterConnectionMode?: () => void;
+  onSaveAsTemplate?: (hex: Hex) => void;
+  mapCourseId?: string;
+  mapUnitId?: string;
+  regions?: MapRegion[];
 }
 
 export const EditorPanel: React.FC<EditorPanelProps> = ({ 
@@ -18,9 +34,14 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
   onDelete, 
   curriculum, 
   availableTargets = [],
-  onEnterConnectionMode 
+  onEnterConnectionMode,
+  onSaveAsTemplate,
+  mapCourseId,
+  mapUnitId,
+  regions = []
 }) => {
   const [newTargetId, setNewTargetId] = useState<string>('');
+  const [showAllStandards, setShowAllStandards] = useState(false);
   
   const handleChange = (field: keyof Hex, value: any) => {
     onChange({ ...hex, [field]: value });
@@ -35,6 +56,31 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
     });
   };
 
+  const setCurriculumValues = (field: keyof HexCurriculum, values: string[]) => {
+    onChange({ ...hex, curriculum: { ...(hex.curriculum || {}), [field]: values } });
+  };
+
+  // Standards tagged with another course or unit than this map's are hidden unless asked for
+  const standardOptions = (curriculum?.standards || []).map(toStandardOption);
+  const scopedStandardOptions = (curriculum?.standards || [])
+    .filter(s => isInScope(s, mapCourseId, mapUnitId))
+    .map(toStandardOption);
+
+  const resources = hex.resources || [];
+
+  const addResource = () => {
+    const resource: HexResource = { id: 'res-' + Date.now(), type: 'doc', title: '', url: '' };
+    handleChange('resources', [...resources, resource]);
+  };
+
+  const updateResource = (id: string, updates: Partial<HexResource>) => {
+    handleChange('resources', resources.map(r => r.id === id ? { ...r, ...updates } : r));
+  };
+
+  const removeResource = (id: string) => {
+    handleChange('resources', resources.filter(r => r.id !== id));
+  };
+
   const handleAddConnection = () => {
       if (!newTargetId) return;
       const currentConnections = hex.connections || [];
@@ -63,11 +109,19 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
   const updateConnection = (targetId: string, updates: Partial<HexConnection>) => {
       const currentConnections = hex.connections || [];
       const updated = currentConnections.map(c => 
-        c.targetHexId === targetId ? { ...c, ...updates } : c
+        c.targetHexId === targetId ? withParsedRule({ ...c, ...updates }) : c
       );
       onChange({ ...hex, connections: updated });
   };
 
+  // Keep the typed rule in sync with the label; invalid text leaves no rule
+  const withParsedRule = (conn: HexConnection): HexConnection => {
+      const { rule, ...rest } = conn;
+      if (!isRuleConnection(conn.type)) return rest;
+      const parsed = parseRule(conn.label);
+      return parsed.ok && parsed.rule ? { ...rest, rule: parsed.rule } : rest;
+  };
+
   const toggleSbar = (tag: string) => {
     const currentList = hex.curriculum?.sbarDomains || [];
     const newList = currentList.includes(tag) ? currentList.filter(t => t !== tag) : [...currentList, tag];
@@ -155,6 +209,20 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
             </div>
           </div>
 
+          {regions.length > 0 && (
+            <div>
+              <label className="block text-xs font-bold text-slate-600 mb-1.5 uppercase">Region</label>
+              <select
+                className="w-full text-sm border-slate-300 rounded-md"
+                value={hex.regionId || ''}
+                onChange={(e) => handleChange('regionId', e.target.value || undefined)}
+              >
+                <option value="">None</option>
+                {regions.map(r => <option key={r.id} value={r.id}>{r.title}</option>)}
+              </select>
+            </div>
+          )}
+
            <div>
             <label className="block text-xs font-bold text-slate-600 mb-1.5 uppercase">Link URL</label>
             <input
@@ -167,7 +235,109 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
             <p className="text-[10px] text-slate-500 mt-1 font-medium">Resource opens in new tab when clicked.</p>
           </div>
         </div>
-        
+
+        {/* Student Content Section */}
+        <div className="space-y-4 pb-5 border-b border-slate-200">
+          <h4 className="text-xs font-bold text-slate-800 uppercase tracking-wider border-b border-slate-100 pb-1">Student Content</h4>
+          <div>
+            <label className="block text-xs font-bold text-slate-600 mb-1.5 uppercase">Description</label>
+            <textarea
+              className="w-full text-sm border-slate-300 rounded-md h-24 font-mono"
+              placeholder="What this step is about. Supports **bold**, *italic*, lists and [links](https://...)"
+              value={hex.description || ''}
+              onChange={(e) => handleChange('description', e.target.value)}
+            />
+            <p className="text-[10px] text-slate-500 mt-1 font-medium">Markdown supported.</p>
+          </div>
+
+          <div>
+            <label className="block text-xs font-bold text-slate-600 mb-1.5 uppercase">Instructions</label>
+            <textarea
+              className="w-full text-sm border-slate-300 rounded-md h-20"
+              placeholder="What students should do"
+              value={hex.instructions || ''}
+              onChange={(e) => handleChange('instructions', e.target.value)}
+            />
+          </div>
+
+          <div className="flex gap-3">
+            <div className="w-1/2">
+              <label className="block text-xs font-bold text-slate-600 mb-1.5 uppercase">Minutes</label>
+              <input
+                type="number"
+                min={1}
+                className="w-full text-sm border-slate-300 rounded-md"
+                placeholder="e.g. 30"
+                value={hex.estimatedMinutes ?? ''}
+                onChange={(e) => handleChange('estimatedMinutes', e.target.value ? Number(e.target.value) : undefined)}
+              />
+            </div>
+            <div className="w-1/2">
+              <label className="block text-xs font-bold text-slate-600 mb-1.5 uppercase">Due Date</label>
+              <input
+                type="date"
+                className="w-full text-sm border-slate-300 rounded-md"
+                value={hex.dueDate || ''}
+                onChange={(e) => handleChange('dueDate', e.target.value || undefined)}
+              />
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-1.5">
+              <label className="block text-xs font-bold text-slate-600 uppercase">Resources</label>
+              <button
+                onClick={addResource}
+                className="flex items-center gap-1 text-[10px] bg-slate-100 text-slate-700 px-2 py-1 rounded hover:bg-slate-200 font-semibold"
+              >
+                <Plus size={10} /> Add resource
+              </button>
+            </div>
+            {resources.length === 0 && (
+              <p className="text-xs text-slate-400 italic">No resources attached.</p>
+            )}
+            <div className="space-y-2">
+              {resources.map(resource => (
+                <div key={resource.id} className="bg-slate-50 p-2 rounded border border-slate-200 space-y-1.5">
+                  <div className="flex gap-2 items-center">
+                    <select
+                      className="text-xs border-slate-300 rounded py-1"
+                      value={resource.type}
+                      onChange={(e) => updateResource(resource.id, { type: e.target.value as HexResourceType })}
+                    >
+                      <option value="video">Video</option>
+                      <option value="doc">Doc</option>
+                      <option value="worksheet">Worksheet</option>
+                      <option value="tool">Tool</option>
+                    </select>
+                    <input
+                      type="text"
+                      className="flex-1 min-w-0 text-xs border-slate-300 rounded py-1"
+                      placeholder="Title"
+                      value={resource.title}
+                      onChange={(e) => updateResource(resource.id, { title: e.target.value })}
+                    />
+                    <button
+                      onClick={() => removeResource(resource.id)}
+                      className="text-slate-400 hover:text-red-500"
+                      aria-label={`Remove ${resource.title || 'resource'}`}
+                    >
+                      <X size={14} />
+                    </button>
+                  </div>
+                  <input
+                    type="text"
+                    className="w-full text-xs border-slate-300 rounded py-1"
+                    placeholder="https://..."
+                    value={resource.url}
+                    onChange={(e) => updateResource(resource.id, { url: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
         {/* Branching / Connections Section */}
         <div className="space-y-4 pb-4 border-b border-slate-200">
            <div className="flex items-center justify-between border-b border-slate-100 pb-1">
@@ -189,6 +359,7 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
            <div className="space-y-3">
                {hex.connections?.map((conn, idx) => {
                    const target = availableTargets.find(t => t.id === conn.targetHexId);
+                   const parsed = isRuleConnection(conn.type) ? parseRule(conn.label) : null;
                    return (
                        <div key={idx} className="bg-slate-50 p-2 rounded border border-slate-200 space-y-2">
                            <div className="flex items-center gap-2 text-xs">
@@ -214,12 +385,22 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
                                </select>
                                <input 
                                    type="text"
-                                   placeholder="Condition (e.g. Score < 70%)"
+                                   placeholder={isRuleConnection(conn.type) ? 'e.g. score < 70% AND status = completed' : 'Label (optional)'}
                                    className="text-[10px] py-1 border-slate-300 rounded flex-1"
                                    value={conn.label || ''}
                                    onChange={(e) => updateConnection(conn.targetHexId, { label: e.target.value })}
                                />
                            </div>
+                           {parsed && parsed.ok === false && (
+                               <p className="text-[10px] text-red-600 font-medium">
+                                   {parsed.error} (at {parsed.position + 1})
+                               </p>
+                           )}
+                           {parsed?.ok && !parsed.rule && (
+                               <p className="text-[10px] text-slate-400">
+                                   No rule — opens when the source is completed.
+                               </p>
+                           )}
                        </div>
                    );
                })}
@@ -277,59 +458,40 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
           </div>
 
           <div>
-            <label className="block text-xs font-bold text-slate-600 mb-1.5">Standards</label>
-            <input
-              type="text"
-              list="standards-list"
-              className="w-full text-sm border-slate-300 rounded-md"
-              placeholder="e.g. NGSS-HS-PS1-1"
-              defaultValue={getStr('standards')}
-              onBlur={(e) => handleCurriculumChange('standards', e.target.value)}
+            <CurriculumPicker
+              label="Standards"
+              values={hex.curriculum?.standards || []}
+              options={showAllStandards ? standardOptions : scopedStandardOptions}
+              catalog={standardOptions}
+              placeholder="Search standards..."
+              onChange={(values) => setCurriculumValues('standards', values)}
             />
-            {curriculum && (
-              <datalist id="standards-list">
-                {curriculum.standards.map(s => (
-                  <option key={s.id} value={s.code}>{s.description}</option>
-                ))}
-              </datalist>
+            {scopedStandardOptions.length < standardOptions.length && (
+              <label className="flex items-center gap-1.5 text-[10px] text-slate-500 mt-1 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={showAllStandards}
+                  onChange={(e) => setShowAllStandards(e.target.checked)}
+                  className="rounded text-indigo-600 focus:ring-indigo-500 w-3 h-3"
+                />
+                Include standards from other courses and units
+              </label>
             )}
           </div>
 
-          <div>
-            <label className="block text-xs font-bold text-slate-600 mb-1.5">ATL Skills</label>
-            <input
-              type="text"
-              list="atl-list"
-              className="w-full text-sm border-slate-300 rounded-md"
-              defaultValue={getStr('atlSkills')}
-              onBlur={(e) => handleCurriculumChange('atlSkills', e.target.value)}
-            />
-            {curriculum && (
-              <datalist id="atl-list">
-                {curriculum.atlSkills.map(s => (
-                  <option key={s.id} value={s.label}>{s.cluster} - {s.description}</option>
-                ))}
-              </datalist>
-            )}
-          </div>
+          <CurriculumPicker
+            label="ATL Skills"
+            values={hex.curriculum?.atlSkills || []}
+            options={(curriculum?.atlSkills || []).map(s => ({ value: s.label, group: s.cluster, description: s.description }))}
+            onChange={(values) => setCurriculumValues('atlSkills', values)}
+          />
 
-          <div>
-            <label className="block text-xs font-bold text-slate-600 mb-1.5">Competencies</label>
-            <input
-              type="text"
-              list="comp-list"
-              className="w-full text-sm border-slate-300 rounded-md"
-              defaultValue={getStr('competencies')}
-              onBlur={(e) => handleCurriculumChange('competencies', e.target.value)}
-            />
-             {curriculum && (
-              <datalist id="comp-list">
-                {curriculum.competencies.map(s => (
-                  <option key={s.id} value={s.label}>{s.category} - {s.description}</option>
-                ))}
-              </datalist>
-            )}
-          </div>
+          <CurriculumPicker
+            label="Competencies"
+            values={hex.curriculum?.competencies || []}
+            options={(curriculum?.competencies || []).map(s => ({ value: s.label, group: s.category, description: s.description }))}
+            onChange={(values) => setCurriculumValues('competencies', values)}
+          />
         </div>
 
         {/* Coordinates Read-only */}
@@ -338,9 +500,26 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
           <div className="text-xs font-mono font-medium text-slate-700 bg-slate-50 px-3 py-2 rounded border border-slate-200">
             Row: {hex.row}, Col: {hex.col}
           </div>
+          <label className="flex items-center gap-2 text-xs text-slate-600 mt-2 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={!!hex.pinned}
+              onChange={(e) => handleChange('pinned', e.target.checked || undefined)}
+              className="rounded text-indigo-600 focus:ring-indigo-500 w-3.5 h-3.5"
+            />
+            Pin position (Auto-arrange won't move it)
+          </label>
         </div>
 
-        <div className="pt-2 pb-6">
+        <div className="pt-2 pb-6 space-y-2">
+          {onSaveAsTemplate && (
+            <button
+              onClick={() => onSaveAsTemplate(hex)}
+              className="w-full text-xs font-bold text-indigo-700 bg-indigo-50 hover:bg-indigo-100 border border-indigo-200 py-2.5 rounded-md transition-colors"
+            >
+              Save as Template
+            </button>
+          )}
           <button
             onClick={() => onDelete(hex.id)}
             className="w-full text-xs font-bold text-red-700 bg-red-50 hover:bg-red-100 border border-red-200 py-2.5 rounded-md transition-colors"
@@ -351,4 +530,198 @@ export const EditorPanel: React.FC<EditorPanelProps> = ({
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
+
+// ============================================================
+// MULTI-HEX MODE
+// ============================================================
+
+interface BulkEditorPanelProps {
+  hexes: Hex[];
+  onChange: (updatedHexes: Hex[], label: string) => void;
+  onDelete: (hexIds: string[]) => void;
+  onClearSelection: () => void;
+  curriculum: CurriculumConfig | null;
+  mapCourseId?: string;
+  mapUnitId?: string;
+  regions?: MapRegion[];
+}
+
+export const BulkEditorPanel: React.FC<BulkEditorPanelProps> = ({
+  hexes,
+  onChange,
+  onDelete,
+  onClearSelection,
+  curriculum,
+  mapCourseId,
+  mapUnitId,
+  regions = []
+}) => {
+  const [standardsToAppend, setStandardsToAppend] = useState<string[]>([]);
+
+  // Picked from the curriculum, like on a single hex, so bulk edits can't add typos
+  const standardOptions = (curriculum?.standards || []).map(toStandardOption);
+  const scopedStandardOptions = (curriculum?.standards || [])
+    .filter(s => isInScope(s, mapCourseId, mapUnitId))
+    .map(toStandardOption);
+
+  // Shared value across the selection, or '' when mixed
+  const common = <K extends keyof Hex>(field: K): string => {
+    const values = new Set(hexes.map(h => (h[field] ?? '') as string));
+    return values.size === 1 ? [...values][0] : '__mixed__';
+  };
+
+  const setField = (field: 'type' | 'size' | 'status' | 'regionId', value: string, label: string) => {
+    if (value === '__mixed__') return;
+    onChange(hexes.map(h => ({ ...h, [field]: value || undefined })), label);
+  };
+
+  const sbarState = (tag: string) => {
+    const count = hexes.filter(h => h.curriculum?.sbarDomains?.includes(tag)).length;
+    return count === 0 ? 'none' : count === hexes.length ? 'all' : 'some';
+  };
+
+  // Toggling a domain sets it on every hex, or clears it if all already have it
+  const toggleSbar = (tag: string) => {
+    const removing = sbarState(tag) === 'all';
+    onChange(hexes.map(h => {
+      const current = h.curriculum?.sbarDomains || [];
+      const sbarDomains = removing ? current.filter(t => t !== tag) : current.includes(tag) ? current : [...current, tag];
+      return { ...h, curriculum: { ...(h.curriculum || {}), sbarDomains } };
+    }), removing ? `Remove ${tag} focus` : `Add ${tag} focus`);
+  };
+
+  const appendStandards = () => {
+    if (!standardsToAppend.length) return;
+    onChange(hexes.map(h => {
+      const current = h.curriculum?.standards || [];
+      const standards = [...current, ...standardsToAppend.filter(a => !current.includes(a))];
+      return { ...h, curriculum: { ...(h.curriculum || {}), standards } };
+    }), 'Append standards');
+    setStandardsToAppend([]);
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-white">
+      <div className="flex justify-between items-center mb-4 pb-2 border-b border-slate-200">
+        <h3 className="font-bold text-slate-800">Edit {hexes.length} Hexes</h3>
+        <button onClick={onClearSelection} className="text-xs text-slate-500 hover:text-slate-800">Clear</button>
+      </div>
+
+      <div className="space-y-5 flex-1 overflow-y-auto">
+        <div className="space-y-4 pb-5 border-b border-slate-200">
+          <div>
+            <label className="block text-xs font-bold text-slate-600 mb-1.5 uppercase">Type</label>
+            <select
+              className="w-full text-sm border-slate-300 rounded-md"
+              value={common('type')}
+              onChange={(e) => setField('type', e.target.value as HexType, 'Change type')}
+            >
+              <option value="__mixed__" disabled>Mixed</option>
+              <option value="core">Core</option>
+              <option value="ext">Extension</option>
+              <option value="scaf">Scaffold</option>
+              <option value="student">Student</option>
+              <option value="class">Class</option>
+            </select>
+          </div>
+
+          <div className="flex gap-3">
+            <div className="w-1/2">
+              <label className="block text-xs font-bold text-slate-600 mb-1.5 uppercase">Status</label>
+              <select
+                className="w-full text-sm border-slate-300 rounded-md"
+                value={common('status')}
+                onChange={(e) => setField('status', e.target.value as HexStatus, 'Change status')}
+              >
+                <option value="__mixed__" disabled>Mixed</option>
+                <option value="">None</option>
+                <option value="locked">Locked</option>
+                <option value="completed">Completed</option>
+              </select>
+            </div>
+            <div className="w-1/2">
+              <label className="block text-xs font-bold text-slate-600 mb-1.5 uppercase">Size</label>
+              <select
+                className="w-full text-sm border-slate-300 rounded-md"
+                value={common('size')}
+                onChange={(e) => setField('size', e.target.value as HexSize, 'Change size')}
+              >
+                <option value="__mixed__" disabled>Mixed</option>
+                <option value="">Default</option>
+                <option value="large">Large</option>
+                <option value="small">Small</option>
+              </select>
+            </div>
+          </div>
+
+          {regions.length > 0 && (
+            <div>
+              <label className="block text-xs font-bold text-slate-600 mb-1.5 uppercase">Region</label>
+              <select
+                className="w-full text-sm border-slate-300 rounded-md"
+                value={common('regionId')}
+                onChange={(e) => setField('regionId', e.target.value, 'Change region')}
+              >
+                <option value="__mixed__" disabled>Mixed</option>
+                <option value="">None</option>
+                {regions.map(r => <option key={r.id} value={r.id}>{r.title}</option>)}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-4 pb-4 border-b border-slate-200">
+          <h4 className="text-xs font-bold text-slate-800 uppercase tracking-wider border-b border-slate-100 pb-1">Curriculum Metadata</h4>
+          <div>
+            <label className="block text-xs font-bold text-slate-600 mb-2">SBAR Focus</label>
+            <div className="flex gap-2">
+              {['KU', 'TT', 'C'].map(tag => {
+                const state = sbarState(tag);
+                return (
+                  <label key={tag} className="flex items-center gap-1.5 text-xs cursor-pointer border px-2 py-1.5 rounded-md bg-slate-50 hover:bg-white hover:shadow-sm border-slate-200 transition-all">
+                    <input
+                      type="checkbox"
+                      checked={state === 'all'}
+                      ref={el => { if (el) el.indeterminate = state === 'some'; }}
+                      onChange={() => toggleSbar(tag)}
+                      className="rounded text-indigo-600 focus:ring-indigo-500 w-3.5 h-3.5"
+                    />
+                    <span className="font-bold text-slate-700">{tag}</span>
+                  </label>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <CurriculumPicker
+              label="Append Standards"
+              values={standardsToAppend}
+              options={scopedStandardOptions}
+              catalog={standardOptions}
+              placeholder="Search standards..."
+              onChange={setStandardsToAppend}
+            />
+            <button
+              onClick={appendStandards}
+              disabled={standardsToAppend.length === 0}
+              className="mt-2 w-full flex items-center justify-center gap-1 text-xs font-semibold py-1.5 bg-indigo-50 text-indigo-700 border border-indigo-200 rounded-md hover:bg-indigo-100 disabled:opacity-50"
+            >
+              <Plus size={14} /> Add to {hexes.length} hexes
+            </button>
+          </div>
+        </div>
+
+        <div className="pt-2 pb-6">
+          <button
+            onClick={() => onDelete(hexes.map(h => h.id))}
+            className="w-full text-xs font-bold text-red-700 bg-red-50 hover:bg-red-100 border border-red-200 py-2.5 rounded-md transition-colors"
+          >
+            Delete {hexes.length} Hexes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
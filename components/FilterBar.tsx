@@ -0,0 +1,245 @@
+import React, { useState } from 'react';
+import { CurriculumConfig, FilterCondition, FilterField, FilterPreset, HexFilter, LearningMap } from '../types';
+import {
+  EMPTY_FILTER, FILTER_FIELD_LABELS, FilterOption, getFilterOptions, isCurriculumField,
+  isFilterActive, createCondition, describeCondition
+} from '../services/filters';
+import { CurriculumPicker } from './CurriculumPicker';
+import { Filter, SlidersHorizontal, X, Eye, EyeOff, BookmarkPlus, Trash2 } from 'lucide-react';
+
+interface FilterBarProps {
+  filter: HexFilter;
+  onChange: (filter: HexFilter) => void;
+  map: LearningMap | null;
+  curriculum: CurriculumConfig | null;
+  presets: FilterPreset[];
+  // Presets live on the map, so only editors can add or remove them
+  onSavePreset?: (name: string) => void;
+  onDeletePreset?: (presetId: string) => void;
+  // Extra controls shown at the end of the row
+  children?: React.ReactNode;
+}
+
+interface ConditionRowProps {
+  condition: FilterCondition;
+  options: FilterOption[];
+  onChange: (condition: FilterCondition) => void;
+  onRemove: () => void;
+}
+
+const ConditionRow: React.FC<ConditionRowProps> = ({ condition, options, onChange, onRemove }) => {
+  const toggle = (value: string) => onChange({
+    ...condition,
+    values: condition.values.includes(value) ? condition.values.filter(v => v !== value) : [...condition.values, value]
+  });
+
+  return (
+    <div className="bg-slate-50 border border-slate-200 rounded-lg p-2">
+      <div className="flex items-center justify-between mb-1.5">
+        <span className="font-bold text-slate-700">{FILTER_FIELD_LABELS[condition.field]}</span>
+        <button onClick={onRemove} className="text-slate-400 hover:text-red-500" aria-label={`Remove ${FILTER_FIELD_LABELS[condition.field]} condition`}>
+          <X size={14} />
+        </button>
+      </div>
+      {options.length === 0 ? (
+        <p className="text-[11px] text-slate-400 italic">No hexes on this map have a {FILTER_FIELD_LABELS[condition.field].toLowerCase()}.</p>
+      ) : isCurriculumField(condition.field) ? (
+        <CurriculumPicker
+          values={condition.values}
+          options={options.map(o => ({ value: o.value, group: o.group || '', description: o.description || '' }))}
+          onChange={(values) => onChange({ ...condition, values })}
+        />
+      ) : (
+        <div className="flex flex-wrap gap-1">
+          {options.map(option => {
+            const on = condition.values.includes(option.value);
+            return (
+              <button
+                key={option.value}
+                onClick={() => toggle(option.value)}
+                aria-pressed={on}
+                className={`px-2 py-0.5 rounded-full border text-[11px] font-medium ${on ? 'bg-indigo-600 border-indigo-600 text-white' : 'bg-white border-slate-300 text-slate-600 hover:border-indigo-300'}`}
+              >
+                {option.label}
+              </button>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const FilterBar: React.FC<FilterBarProps> = ({
+  filter,
+  onChange,
+  map,
+  curriculum,
+  presets,
+  onSavePreset,
+  onDeletePreset,
+  children
+}) => {
+  const [open, setOpen] = useState(false);
+
+  const optionsFor = (field: FilterField) => map ? getFilterOptions(field, map, curriculum) : [];
+  const active = filter.conditions.filter(c => c.values.length > 0);
+  const usedFields = new Set(filter.conditions.map(c => c.field));
+  const availableFields = (Object.keys(FILTER_FIELD_LABELS) as FilterField[])
+    .filter(f => !usedFields.has(f))
+    .filter(f => f !== 'region' || (map?.regions || []).length > 0);
+
+  const updateCondition = (condition: FilterCondition) =>
+    onChange({ ...filter, conditions: filter.conditions.map(c => c.id === condition.id ? condition : c) });
+  const removeCondition = (id: string) =>
+    onChange({ ...filter, conditions: filter.conditions.filter(c => c.id !== id) });
+
+  const handleSavePreset = () => {
+    const name = prompt('Preset name:');
+    if (name && onSavePreset) onSavePreset(name);
+  };
+
+  return (
+    <div className="relative bg-slate-50 px-4 py-2 border-b border-slate-200 flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-slate-600">
+      <span className="font-bold flex items-center gap-1"><Filter size={12}/> Highlight:</span>
+
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center gap-1 px-2 py-0.5 rounded border ${open || isFilterActive(filter) ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-slate-300 hover:bg-slate-100'}`}
+        aria-expanded={open}
+      >
+        <SlidersHorizontal size={12} /> Filters{active.length > 0 ? ` (${active.length})` : ''}
+      </button>
+
+      {active.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          {active.map((condition, idx) => (
+            <React.Fragment key={condition.id}>
+              {idx > 0 && <span className="text-[10px] font-bold text-slate-400 uppercase">{filter.combinator}</span>}
+              <span className="inline-flex items-center gap-1 bg-white border border-slate-200 rounded-full pl-2 pr-1 py-0.5">
+                {describeCondition(condition, optionsFor(condition.field))}
+                <button onClick={() => removeCondition(condition.id)} className="text-slate-400 hover:text-red-500" aria-label="Remove condition">
+                  <X size={10} />
+                </button>
+              </span>
+            </React.Fragment>
+          ))}
+          <button onClick={() => onChange({ ...filter, conditions: [] })} className="text-slate-400 hover:text-slate-700 underline">
+            Clear
+          </button>
+        </div>
+      )}
+
+      <button
+        onClick={() => onChange({ ...filter, display: filter.display === 'dim' ? 'hide' : 'dim' })}
+        className="flex items-center gap-1 hover:text-slate-900"
+        title="Dim or hide hexes that don't match"
+      >
+        {filter.display === 'dim' ? <Eye size={12} /> : <EyeOff size={12} />}
+        {filter.display === 'dim' ? 'Dim others' : 'Hide others'}
+      </button>
+
+      {presets.length > 0 && (
+        <select
+          value=""
+          onChange={e => {
+            const preset = presets.find(p => p.id === e.target.value);
+            if (preset) onChange(preset.filter);
+          }}
+          className="text-xs py-0.5 pl-1.5 pr-6 border-slate-300 rounded"
+          aria-label="Apply a saved filter"
+        >
+          <option value="">Presets...</option>
+          {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+      )}
+
+      {children}
+
+      {open && (
+        <div className="absolute left-4 top-full mt-1 z-50 w-96 max-w-[calc(100vw-2rem)] bg-white border border-slate-200 rounded-xl shadow-xl p-3 space-y-3">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <span className="font-bold text-slate-700">Match</span>
+              <div className="flex rounded border border-slate-300 overflow-hidden">
+                {(['and', 'or'] as const).map(c => (
+                  <button
+                    key={c}
+                    onClick={() => onChange({ ...filter, combinator: c })}
+                    className={`px-2 py-0.5 ${filter.combinator === c ? 'bg-indigo-600 text-white' : 'bg-white hover:bg-slate-50'}`}
+                  >
+                    {c === 'and' ? 'All' : 'Any'}
+                  </button>
+                ))}
+              </div>
+              <span className="text-slate-400">conditions</span>
+            </div>
+            <button onClick={() => setOpen(false)} className="text-slate-400 hover:text-slate-700" aria-label="Close filters">
+              <X size={16} />
+            </button>
+          </div>
+
+          {filter.conditions.length === 0 && (
+            <p className="text-slate-400 italic">Add a condition to highlight matching hexes.</p>
+          )}
+          <div className="space-y-2 max-h-80 overflow-y-auto">
+            {filter.conditions.map(condition => (
+              <ConditionRow
+                key={condition.id}
+                condition={condition}
+                options={optionsFor(condition.field)}
+                onChange={updateCondition}
+                onRemove={() => removeCondition(condition.id)}
+              />
+            ))}
+          </div>
+
+          {availableFields.length > 0 && (
+            <select
+              value=""
+              onChange={e => {
+                if (!e.target.value) return;
+                onChange({ ...filter, conditions: [...filter.conditions, createCondition(e.target.value as FilterField)] });
+              }}
+              className="w-full text-xs py-1 border-slate-300 rounded"
+            >
+              <option value="">+ Add condition...</option>
+              {availableFields.map(f => <option key={f} value={f}>{FILTER_FIELD_LABELS[f]}</option>)}
+            </select>
+          )}
+
+          <div className="flex items-center justify-between pt-2 border-t border-slate-100">
+            <button onClick={() => onChange(EMPTY_FILTER)} className="text-slate-500 hover:text-slate-800">
+              Reset
+            </button>
+            {onSavePreset && (
+              <button
+                onClick={handleSavePreset}
+                disabled={!isFilterActive(filter)}
+                className="flex items-center gap-1 font-semibold bg-indigo-50 text-indigo-700 px-2 py-1 rounded hover:bg-indigo-100 disabled:opacity-50"
+              >
+                <BookmarkPlus size={12} /> Save as preset
+              </button>
+            )}
+          </div>
+
+          {onDeletePreset && presets.length > 0 && (
+            <div className="pt-2 border-t border-slate-100 space-y-1">
+              <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Saved presets</span>
+              {presets.map(preset => (
+                <div key={preset.id} className="flex items-center justify-between">
+                  <button onClick={() => onChange(preset.filter)} className="text-slate-700 hover:text-indigo-700 truncate">
+                    {preset.name}
+                  </button>
+                  <button onClick={() => onDeletePreset(preset.id)} className="text-slate-400 hover:text-red-500" aria-label={`Delete preset ${preset.name}`}>
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
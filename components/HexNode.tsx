@@ -1,34 +1,60 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Hex } from '../types';
+import { HexLockState } from '../services/locking';
+import { isSafeUrl } from '../services/urls';
+import { GridMetrics, GridDirection, Point, getBasePosition as getGridPosition, getHexDimensions, snapToCell } from '../services/grid';
 
 // Hardcoded tool mappings (Legacy support)
 const TOOL_HEX_LINKS: Record<string, string> = {
   'CHEM-3_9-CHROMA-01': 'https://script.google.com/a/macros/aischennai.org/s/AKfycbwj65yf-OkJDdcSx9CAJlgMzea5CzpMVGg2AAbF727ilJHsJH8sGDgsdXfCvjAH-8M4/exec'
 };
 
+const ARROW_DIRECTIONS: Record<string, GridDirection> = {
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+  ArrowUp: 'up',
+  ArrowDown: 'down'
+};
+
+const TYPE_NAMES: Record<string, string> = {
+  core: 'core',
+  ext: 'extension',
+  scaf: 'scaffold',
+  student: 'student choice',
+  class: 'class'
+};
+
+// Touch drags start after a still press, so a quick swipe isn't taken as a move
+const LONG_PRESS_MS = 400;
+const LONG_PRESS_SLOP = 8;
+
 interface HexNodeProps {
   hex: Hex;
   isSelected: boolean;
   isBuilderMode: boolean;
   isConnectionMode: boolean;
-  onSelect: (hex: Hex) => void;
+  connectionRole?: 'source' | 'linked' | null;
+  lockState?: HexLockState;
+  isRecommended?: boolean;
+  onSelect: (hex: Hex, additive?: boolean) => void;
   onPositionChange: (hex: Hex, newRow: number, newCol: number) => void;
   onConnectionClick: (hex: Hex) => void;
-  gridMetrics: {
-    width: number;
-    height: number;
-    colSpacing: number;
-    rowSpacing: number;
-  };
-  filters?: {
-    linkedOnly: boolean;
-    sbar: {
-        K: boolean;
-        T: boolean;
-        C: boolean;
-    }
-  };
+  onDragMove?: (hex: Hex, position: Point | null) => void;
+  // Live position while another selected hex leads a group drag
+  externalPosition?: Point;
+  // Roving focus: only the grid's current hex is in the tab order
+  isFocusTarget?: boolean;
+  onFocusHex?: (hex: Hex) => void;
+  onNavigate?: (hex: Hex, direction: GridDirection, move: boolean) => void;
+  onRemove?: (hex: Hex) => void;
+  gridMetrics: GridMetrics;
+  // Current grid zoom, so screen-pixel drags map back to grid pixels
+  zoom?: number;
+  // Faded out because it doesn't match the map's highlight filter
+  isDimmed?: boolean;
+  // Briefly highlighted after being found by the map search
+  isPulsing?: boolean;
 }
 
 export const HexNode: React.FC<HexNodeProps> = ({
@@ -36,15 +62,27 @@ export const HexNode: React.FC<HexNodeProps> = ({
   isSelected,
   isBuilderMode,
   isConnectionMode,
+  connectionRole = null,
+  lockState,
+  isRecommended = false,
   onSelect,
   onPositionChange,
   onConnectionClick,
+  onDragMove,
+  externalPosition,
+  isFocusTarget = false,
+  onFocusHex,
+  onNavigate,
+  onRemove,
   gridMetrics,
-  filters
+  zoom = 1,
+  isDimmed = false,
+  isPulsing = false
 }) => {
   // Local state for dragging visual override
   const [dragState, setDragState] = useState<{
     isDragging: boolean;
+    pointerId: number;
     startX: number;
     startY: number;
     initialLeft: number;
@@ -52,6 +90,10 @@ export const HexNode: React.FC<HexNodeProps> = ({
     currentX: number;
     currentY: number;
   } | null>(null);
+  // Touch waiting to become a drag
+  const [pendingPress, setPendingPress] = useState<{ pointerId: number; startX: number; startY: number } | null>(null);
+  // Set when a drag actually moved, so the click that ends it doesn't reselect
+  const suppressClickRef = useRef(false);
 
   // --- Helper: Get Base Link ---
   const getHexBaseLink = (h: Hex) => {
@@ -62,40 +104,27 @@ export const HexNode: React.FC<HexNodeProps> = ({
   };
 
   const baseLink = getHexBaseLink(hex);
-  const hasLink = !!baseLink;
+  const hasLink = isSafeUrl(baseLink);
 
   // --- Layout Calculation ---
-  const getBasePosition = (r: number, c: number) => {
-    // Ensure r and c are numbers to avoid NaN
-    const row = Number(r) || 0;
-    const col = Number(c) || 0;
-    
-    const xOffset = (row % 2 === 0) ? 0 : gridMetrics.width / 2; 
-    const left = col * gridMetrics.colSpacing + xOffset + 20; 
-    const top = row * gridMetrics.rowSpacing + 20;
-    return { x: left, y: top };
-  };
+  const getBasePosition = (r: number, c: number) => getGridPosition(r, c, gridMetrics);
 
   const basePos = getBasePosition(hex.row, hex.col);
   
   // Use drag position if dragging, otherwise computed base position
-  const currentX = dragState?.isDragging ? dragState.currentX : basePos.x;
-  const currentY = dragState?.isDragging ? dragState.currentY : basePos.y;
+  const currentX = dragState?.isDragging ? dragState.currentX : (externalPosition?.x ?? basePos.x);
+  const currentY = dragState?.isDragging ? dragState.currentY : (externalPosition?.y ?? basePos.y);
+  const isMoving = !!dragState?.isDragging || !!externalPosition;
 
   // --- Size Styles ---
-  let width = gridMetrics.width;
-  let height = gridMetrics.height;
+  const { width, height } = getHexDimensions(hex.size, gridMetrics);
   let iconSize = 28;
   let textSize = 'text-xs';
 
   if (hex.size === 'large') {
-    width *= 1.3;
-    height *= 1.3;
     iconSize = 36;
     textSize = 'text-sm';
   } else if (hex.size === 'small') {
-    width *= 0.8;
-    height *= 0.8;
     iconSize = 20;
     textSize = 'text-[10px]';
   }
@@ -112,7 +141,9 @@ export const HexNode: React.FC<HexNodeProps> = ({
         default: return { fill: '#ffffff', stroke: '#cbd5e1', text: '#334155' };
     }
   };
-  const theme = getTheme(hex.type, hex.status);
+  // Students see the computed lock state; builders see the authored status
+  const isLocked = !isBuilderMode && lockState ? lockState.locked : hex.status === 'locked';
+  const theme = getTheme(hex.type, isLocked ? 'locked' : hex.status);
   
   const getProgressColor = (progress?: string) => {
     if (progress === 'mastered') return '#9333ea';
@@ -121,57 +152,112 @@ export const HexNode: React.FC<HexNodeProps> = ({
     return 'transparent';
   };
 
-  // --- Global Mouse Listeners for Dragging ---
+  // --- Global Pointer Listeners for Dragging ---
   useEffect(() => {
     if (!dragState?.isDragging) return;
 
-    const handleWindowMouseMove = (e: MouseEvent) => {
+    // Pointer deltas are in screen pixels; the grid may be zoomed
+    const toGrid = (e: PointerEvent) => ({
+      x: dragState.initialLeft + (e.clientX - dragState.startX) / zoom,
+      y: dragState.initialTop + (e.clientY - dragState.startY) / zoom
+    });
+
+    const handleWindowPointerMove = (e: PointerEvent) => {
+      if (e.pointerId !== dragState.pointerId) return;
       e.preventDefault(); 
-      const dx = e.clientX - dragState.startX;
-      const dy = e.clientY - dragState.startY;
+      const pos = toGrid(e);
+      if (Math.abs(e.clientX - dragState.startX) > 3 || Math.abs(e.clientY - dragState.startY) > 3) suppressClickRef.current = true;
       
-      setDragState(prev => prev ? ({ 
-        ...prev, 
-        currentX: prev.initialLeft + dx, 
-        currentY: prev.initialTop + dy 
-      }) : null);
+      onDragMove?.(hex, pos);
+      setDragState(prev => prev ? ({ ...prev, currentX: pos.x, currentY: pos.y }) : null);
     };
 
-    const handleWindowMouseUp = (e: MouseEvent) => {
+    const handleWindowPointerUp = (e: PointerEvent) => {
+      if (e.pointerId !== dragState.pointerId) return;
       e.preventDefault();
       
-      if (dragState) {
-        const finalX = dragState.initialLeft + (e.clientX - dragState.startX);
-        const finalY = dragState.initialTop + (e.clientY - dragState.startY);
-
-        const approxRow = Math.round((finalY - 20) / gridMetrics.rowSpacing);
-        const approxRowClean = Math.max(0, approxRow);
-        
-        const isOddRow = approxRowClean % 2 !== 0;
-        const xOffset = isOddRow ? gridMetrics.width / 2 : 0;
-        
-        const approxCol = Math.round((finalX - 20 - xOffset) / gridMetrics.colSpacing);
-        const approxColClean = Math.max(0, approxCol);
-
-        onPositionChange(hex, approxRowClean, approxColClean);
+      // A cancelled touch (e.g. the OS took over the gesture) leaves the hex where it was
+      if (e.type === 'pointerup') {
+        const pos = toGrid(e);
+        const cell = snapToCell(pos.x, pos.y, gridMetrics);
+        onPositionChange(hex, cell.row, cell.col);
       }
       
+      onDragMove?.(hex, null);
       setDragState(null);
     };
 
-    window.addEventListener('mousemove', handleWindowMouseMove);
-    window.addEventListener('mouseup', handleWindowMouseUp);
+    window.addEventListener('pointermove', handleWindowPointerMove);
+    window.addEventListener('pointerup', handleWindowPointerUp);
+    window.addEventListener('pointercancel', handleWindowPointerUp);
+
+    return () => {
+      window.removeEventListener('pointermove', handleWindowPointerMove);
+      window.removeEventListener('pointerup', handleWindowPointerUp);
+      window.removeEventListener('pointercancel', handleWindowPointerUp);
+    };
+  }, [dragState, gridMetrics, zoom, hex, onPositionChange, onDragMove]);
+
+  // --- Long-press (touch) ---
+  // A touch only becomes a drag once held still; moving first, lifting or
+  // adding a second finger (pinch/pan) cancels it.
+  useEffect(() => {
+    if (!pendingPress) return;
+
+    const timer = window.setTimeout(() => {
+      navigator.vibrate?.(10);
+      suppressClickRef.current = true;
+      startDrag(pendingPress.pointerId, pendingPress.startX, pendingPress.startY);
+      setPendingPress(null);
+    }, LONG_PRESS_MS);
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (e.pointerId !== pendingPress.pointerId) return;
+      if (Math.hypot(e.clientX - pendingPress.startX, e.clientY - pendingPress.startY) > LONG_PRESS_SLOP) {
+        setPendingPress(null);
+      }
+    };
+    const handlePointerEnd = (e: PointerEvent) => {
+      if (e.pointerId === pendingPress.pointerId) setPendingPress(null);
+    };
+    const handleOtherPointerDown = (e: PointerEvent) => {
+      if (e.pointerId !== pendingPress.pointerId) setPendingPress(null);
+    };
+
+    window.addEventListener('pointermove', handlePointerMove);
+    window.addEventListener('pointerup', handlePointerEnd);
+    window.addEventListener('pointercancel', handlePointerEnd);
+    window.addEventListener('pointerdown', handleOtherPointerDown);
 
     return () => {
-      window.removeEventListener('mousemove', handleWindowMouseMove);
-      window.removeEventListener('mouseup', handleWindowMouseUp);
+      window.clearTimeout(timer);
+      window.removeEventListener('pointermove', handlePointerMove);
+      window.removeEventListener('pointerup', handlePointerEnd);
+      window.removeEventListener('pointercancel', handlePointerEnd);
+      window.removeEventListener('pointerdown', handleOtherPointerDown);
     };
-  }, [dragState, gridMetrics, hex, onPositionChange]);
+  }, [pendingPress]);
 
 
   // --- Event Handlers ---
 
-  const handleMouseDown = (e: React.MouseEvent) => {
+  const startDrag = (pointerId: number, clientX: number, clientY: number) => {
+      // Force fresh basePos calculation to ensure no stale closure
+      const startPos = getBasePosition(hex.row, hex.col);
+
+      setDragState({
+          isDragging: true,
+          pointerId,
+          startX: clientX,
+          startY: clientY,
+          initialLeft: startPos.x,
+          initialTop: startPos.y,
+          currentX: startPos.x,
+          currentY: startPos.y
+      });
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
       if (isConnectionMode) {
           e.stopPropagation();
           return; 
@@ -179,23 +265,27 @@ export const HexNode: React.FC<HexNodeProps> = ({
 
       if (isBuilderMode) {
           if (e.button !== 0) return; 
-          e.preventDefault(); 
           e.stopPropagation();
-          
-          onSelect(hex);
-
-          // Force fresh basePos calculation to ensure no stale closure
-          const startPos = getBasePosition(hex.row, hex.col);
-
-          setDragState({
-              isDragging: true,
-              startX: e.clientX,
-              startY: e.clientY,
-              initialLeft: startPos.x,
-              initialTop: startPos.y,
-              currentX: startPos.x,
-              currentY: startPos.y
-          });
+          suppressClickRef.current = false;
+
+          // Shift toggles this hex in the selection without dragging
+          if (e.shiftKey) {
+              e.preventDefault();
+              onSelect(hex, true);
+              suppressClickRef.current = true;
+              return;
+          }
+
+          // Dragging an already-selected hex moves the whole selection
+          if (!isSelected) onSelect(hex);
+
+          if (e.pointerType === 'touch') {
+              setPendingPress({ pointerId: e.pointerId, startX: e.clientX, startY: e.clientY });
+              return;
+          }
+
+          e.preventDefault(); 
+          startDrag(e.pointerId, e.clientX, e.clientY);
           return;
       }
   };
@@ -203,7 +293,16 @@ export const HexNode: React.FC<HexNodeProps> = ({
   const handleClick = (e: React.MouseEvent) => {
     e.stopPropagation();
     if (dragState?.isDragging) return;
+    if (suppressClickRef.current) {
+        suppressClickRef.current = false;
+        return;
+    }
+
+    activate();
+  };
 
+  // Shared by click and Enter: select, and in student view open the resource
+  const activate = () => {
     if (isConnectionMode) {
         onConnectionClick(hex);
         return;
@@ -211,35 +310,38 @@ export const HexNode: React.FC<HexNodeProps> = ({
 
     onSelect(hex);
     
-    if (!isBuilderMode && hasLink && baseLink) {
+    if (!isBuilderMode && hasLink && baseLink && !isLocked) {
         if (TOOL_HEX_LINKS[hex.id]) {
             const sep = baseLink.indexOf('?') === -1 ? '?' : '&';
             const url = `${baseLink}${sep}view=student&hexId=${encodeURIComponent(hex.id)}`;
-            window.open(url, '_blank');
+            window.open(url, '_blank', 'noopener');
         } else {
-            window.open(baseLink, '_blank');
+            window.open(baseLink, '_blank', 'noopener');
         }
     }
   };
 
-  // --- Filter Logic ---
-  let isDimmed = false;
-  if (filters) {
-    if (filters.linkedOnly && !hasLink) {
-        isDimmed = true;
-    } else {
-        const domains = hex.curriculum?.sbarDomains || [];
-        const hasK = domains.some(d => d.includes('K') || d.includes('U'));
-        const hasT = domains.some(d => d.includes('T'));
-        const hasC = domains.some(d => d.includes('C'));
-        const requireK = filters.sbar.K;
-        const requireT = filters.sbar.T;
-        const requireC = filters.sbar.C;
-        if ((requireK || requireT || requireC) && !((requireK && hasK) || (requireT && hasT) || (requireC && hasC))) {
-            isDimmed = true;
-        }
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const direction = ARROW_DIRECTIONS[e.key];
+    if (direction) {
+        e.preventDefault();
+        onNavigate?.(hex, direction, e.altKey);
+    } else if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault();
+        if (e.shiftKey && isBuilderMode) onSelect(hex, true);
+        else activate();
+    } else if ((e.key === 'Delete' || e.key === 'Backspace') && isBuilderMode && onRemove) {
+        e.preventDefault();
+        onRemove(hex);
     }
-  }
+  };
+
+  // --- Accessible name ---
+  const progressText = (hex.progress || 'not_started').replace('_', ' ');
+  const lockText = isLocked
+    ? `locked${lockState?.unlockHint ? `. ${lockState.unlockHint}` : ''}`
+    : 'unlocked';
+  const ariaLabel = `${hex.label}, ${TYPE_NAMES[hex.type] || hex.type} hex, ${progressText}, ${lockText}`;
 
   // --- SVG Path Construction ---
   const p = {
@@ -260,21 +362,31 @@ export const HexNode: React.FC<HexNodeProps> = ({
 
   return (
     <div
-        className={`absolute group ${cursorClass} ${isSelected ? 'z-30' : 'z-10 hover:z-20'}`}
+        className={`absolute group outline-none ${cursorClass} ${isSelected ? 'z-30' : 'z-10 hover:z-20'}`}
         style={{
             width: width,
             height: height,
             left: currentX,
             top: currentY,
-            opacity: isDimmed ? 0.3 : (dragState?.isDragging ? 0.9 : 1),
-            filter: isDimmed ? 'grayscale(100%)' : (isSelected || dragState?.isDragging ? 'drop-shadow(0 10px 8px rgb(0 0 0 / 0.15))' : 'drop-shadow(0 4px 3px rgb(0 0 0 / 0.07))'),
-            transform: isSelected || dragState?.isDragging ? 'scale(1.05)' : 'scale(1)',
-            transition: dragState?.isDragging ? 'none' : 'transform 0.1s ease-out, left 0.2s ease-out, top 0.2s ease-out',
-            touchAction: 'none'
+            opacity: isDimmed ? 0.3 : (isMoving ? 0.9 : 1),
+            filter: isDimmed ? 'grayscale(100%)' : (isSelected || isMoving ? 'drop-shadow(0 10px 8px rgb(0 0 0 / 0.15))' : 'drop-shadow(0 4px 3px rgb(0 0 0 / 0.07))'),
+            transform: isSelected || isMoving ? 'scale(1.05)' : 'scale(1)',
+            transition: isMoving ? 'none' : 'transform 0.1s ease-out, left 0.2s ease-out, top 0.2s ease-out',
+            touchAction: 'none',
+            userSelect: 'none',
+            WebkitTouchCallout: 'none'
         }}
-        onMouseDown={handleMouseDown}
+        onPointerDown={handlePointerDown}
         onClick={handleClick}
-        title={hex.label}
+        onKeyDown={handleKeyDown}
+        onFocus={() => onFocusHex?.(hex)}
+        tabIndex={isFocusTarget ? 0 : -1}
+        role="button"
+        aria-label={ariaLabel}
+        aria-pressed={isSelected}
+        aria-disabled={!isBuilderMode && isLocked}
+        data-hex-id={hex.id}
+        title={isLocked && lockState?.unlockHint ? `${hex.label} — ${lockState.unlockHint}` : hex.label}
     >
         <svg width={width} height={height} className="overflow-visible block">
             <polygon 
@@ -285,6 +397,51 @@ export const HexNode: React.FC<HexNodeProps> = ({
                 strokeLinejoin="round"
                 className="transition-colors duration-200"
             />
+
+            {/* Keyboard focus ring, shaped like the hex */}
+            <polygon
+                points={points}
+                fill="none"
+                stroke="#0ea5e9"
+                strokeWidth={6}
+                strokeLinejoin="round"
+                className="opacity-0 group-focus-visible:opacity-100"
+            />
+
+            {!isBuilderMode && isRecommended && (
+                <polygon
+                    points={points}
+                    fill="none"
+                    stroke="#f59e0b"
+                    strokeWidth={5}
+                    strokeLinejoin="round"
+                    className="animate-pulse"
+                />
+            )}
+
+            {isPulsing && (
+                <polygon
+                    points={points}
+                    fill="none"
+                    stroke="#f43f5e"
+                    strokeWidth={6}
+                    strokeLinejoin="round"
+                    className="animate-ping"
+                    style={{ transformBox: 'fill-box', transformOrigin: 'center' }}
+                />
+            )}
+
+            {isConnectionMode && connectionRole && (
+                <polygon
+                    points={points}
+                    fill="none"
+                    stroke={connectionRole === 'source' ? '#4f46e5' : '#a5b4fc'}
+                    strokeWidth={connectionRole === 'source' ? 6 : 4}
+                    strokeDasharray={connectionRole === 'source' ? undefined : '6 4'}
+                    strokeLinejoin="round"
+                    opacity={0.9}
+                />
+            )}
             
             {!isBuilderMode && hex.progress && hex.progress !== 'not_started' && (
                  <path d={progressPath} fill="none" stroke={getProgressColor(hex.progress)} strokeWidth="6" strokeLinecap="round" opacity="1" />
@@ -306,6 +463,10 @@ export const HexNode: React.FC<HexNodeProps> = ({
              </div>
         </div>
 
+        {isBuilderMode && hex.pinned && (
+            <div className="absolute top-2 right-3 text-xs z-30" title="Pinned">📌</div>
+        )}
+
         {!isBuilderMode && (
             <>
                 {hex.curriculum?.sbarDomains?.length ? (
@@ -313,9 +474,17 @@ export const HexNode: React.FC<HexNodeProps> = ({
                         {hex.curriculum.sbarDomains.join('/')}
                     </div>
                 ) : null}
-                {hasLink && (
+                {isRecommended && (
+                    <div className="absolute -bottom-2 left-1/2 -translate-x-1/2 bg-amber-500 text-white text-[9px] px-2 py-0.5 rounded-full shadow-sm whitespace-nowrap z-30 font-bold uppercase tracking-wider border-2 border-white">
+                        Next up
+                    </div>
+                )}
+                {hasLink && !isLocked && (
                      <div className="absolute bottom-2 right-3 text-xs opacity-70 z-30 hover:opacity-100 bg-white rounded-full p-0.5 shadow-sm">🔗</div>
                 )}
+                {isLocked && (
+                     <div className="absolute bottom-2 right-3 text-xs z-30 bg-white rounded-full p-0.5 shadow-sm">🔒</div>
+                )}
             </>
         )}
     </div>
@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LearningMap, MapRevision } from '../types';
+import { storageService } from '../services/storage';
+import { diffRevisions, countChanges, RevisionDiff, UBD_FIELD_LABELS } from '../services/revisions';
+import { MAP_FIELD_LABELS } from '../services/conflicts';
+import { X, History, RotateCcw, GitBranch, Loader2 } from 'lucide-react';
+
+interface HistoryPanelProps {
+  map: LearningMap;
+  onClose: () => void;
+  onRestore: (revision: MapRevision) => void;
+  onBranch?: (revision: MapRevision) => void;
+}
+
+// Compare a revision with the save before it, or with the map as it is now
+type CompareMode = 'previous' | 'current';
+
+// e.g. "2 added, 1 moved, 3 edited"
+function summarize(diff: RevisionDiff): string {
+  const parts = [
+    diff.added.length && `${diff.added.length} added`,
+    diff.removed.length && `${diff.removed.length} removed`,
+    diff.moved.length && `${diff.moved.length} moved`,
+    diff.edited.length && `${diff.edited.length} edited`,
+    diff.connections.length && `${diff.connections.length} connection${diff.connections.length === 1 ? '' : 's'}`,
+    (diff.ubdFields.length || diff.mapFields.length) && 'map details',
+  ].filter(Boolean);
+  return parts.length ? parts.join(', ') : 'No changes';
+}
+
+const DiffSection: React.FC<{ title: string; items: React.ReactNode[]; tone: string }> = ({ title, items, tone }) => {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <h4 className={`text-[10px] font-bold uppercase tracking-wider mb-1 ${tone}`}>{title} ({items.length})</h4>
+      <ul className="space-y-0.5 text-slate-700">
+        {items.map((item, idx) => <li key={idx} className="truncate">{item}</li>)}
+      </ul>
+    </div>
+  );
+};
+
+const RevisionDiffView: React.FC<{ diff: RevisionDiff }> = ({ diff }) => {
+  if (countChanges(diff) === 0) {
+    return <p className="text-slate-400 italic">No changes.</p>;
+  }
+  const hexName = (hex: { icon?: string; label: string } | null) => hex ? `${hex.icon || ''} ${hex.label}`.trim() : 'a missing hex';
+  return (
+    <div className="space-y-3">
+      <DiffSection title="Added" tone="text-emerald-600" items={diff.added.map(hexName)} />
+      <DiffSection title="Removed" tone="text-red-600" items={diff.removed.map(hexName)} />
+      <DiffSection
+        title="Moved"
+        tone="text-sky-600"
+        items={diff.moved.map(m => `${hexName(m.hex)}: ${m.from.row},${m.from.col} → ${m.hex.row},${m.hex.col}`)}
+      />
+      <DiffSection
+        title="Edited"
+        tone="text-amber-600"
+        items={diff.edited.map(e => <>{hexName(e.hex)} <span className="text-slate-400">({e.fields.join(', ')})</span></>)}
+      />
+      <DiffSection
+        title="Connections"
+        tone="text-indigo-600"
+        items={diff.connections.map(c => `${hexName(c.from)} → ${hexName(c.to)}: ${c.change} (${c.type})`)}
+      />
+      <DiffSection title="UbD Plan" tone="text-purple-600" items={diff.ubdFields.map(f => UBD_FIELD_LABELS[f])} />
+      <DiffSection title="Map" tone="text-slate-500" items={diff.mapFields.map(f => MAP_FIELD_LABELS[f])} />
+    </div>
+  );
+};
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({ map, onClose, onRestore, onBranch }) => {
+  const [revisions, setRevisions] = useState<MapRevision[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Revisions are picked by save time; offline saves can share a revision number
+  const [selected, setSelected] = useState<string | null>(null);
+  const [compare, setCompare] = useState<CompareMode>('previous');
+
+  // Reloaded after each save of this map
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    storageService.getMapRevisions(map.mapId)
+      .then(list => { if (!cancelled) setRevisions(list); })
+      .catch(e => console.error('Failed to load revisions', e))
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [map.mapId, map.meta?.revision]);
+
+  // Each revision against the one saved before it (the list is newest first).
+  // The oldest kept one has nothing to compare with, so it's the baseline.
+  const summaries = useMemo(
+    () => revisions.map((r, idx) => idx === revisions.length - 1
+      ? 'Earliest kept revision'
+      : summarize(diffRevisions(revisions[idx + 1].map, r.map))),
+    [revisions]
+  );
+
+  const selectedIdx = revisions.findIndex(r => r.savedAt === selected);
+  const selectedRevision = selectedIdx >= 0 ? revisions[selectedIdx] : null;
+  const previousRevision = selectedIdx >= 0 ? revisions[selectedIdx + 1] || null : null;
+  // null for the baseline, which has no earlier revision to diff against
+  const diff = useMemo(() => {
+    if (!selectedRevision) return null;
+    if (compare === 'previous') return previousRevision ? diffRevisions(previousRevision.map, selectedRevision.map) : null;
+    return diffRevisions(selectedRevision.map, map);
+  }, [selectedRevision, previousRevision, compare, map]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end items-stretch md:items-start md:p-4 bg-slate-900/20 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white w-full md:w-96 h-full md:h-auto md:max-h-[85vh] shadow-2xl md:rounded-xl flex flex-col animate-in slide-in-from-right duration-300"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-4 border-b border-slate-100 bg-slate-50/50 md:rounded-t-xl">
+            <h2 className="font-bold text-slate-800 flex items-center gap-2">
+                <History size={18} className="text-indigo-600"/> Version History
+            </h2>
+            <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded-full text-slate-500 transition-colors">
+                <X size={20} />
+            </button>
+        </div>
+
+        <div className="overflow-y-auto p-4 space-y-2 flex-1 text-xs">
+            {loading ? (
+                <div className="py-8 text-center text-slate-400"><Loader2 size={16} className="animate-spin inline mr-2"/> Loading history...</div>
+            ) : revisions.length === 0 ? (
+                <div className="py-8 text-center text-slate-400 italic">No saved versions yet. Each manual save adds one.</div>
+            ) : revisions.map((revision, idx) => {
+                const isSelected = revision.savedAt === selected;
+                return (
+                    <div key={revision.savedAt} className={`rounded-lg border ${isSelected ? 'border-indigo-300 bg-indigo-50/40' : 'border-slate-200'}`}>
+                        <button
+                            onClick={() => setSelected(isSelected ? null : revision.savedAt)}
+                            className="w-full text-left p-2.5"
+                            aria-expanded={isSelected}
+                        >
+                            <div className="flex items-center justify-between gap-2">
+                                <span className="font-bold text-slate-800">
+                                    Revision {revision.revision}
+                                    {idx === 0 && <span className="ml-2 text-[10px] font-semibold text-emerald-600">Latest</span>}
+                                </span>
+                                <span className="text-slate-400">{new Date(revision.savedAt).toLocaleString()}</span>
+                            </div>
+                            <div className="text-slate-500 mt-0.5">
+                                {revision.savedBy || 'Unknown author'} · {summaries[idx]}
+                            </div>
+                        </button>
+
+                        {isSelected && (
+                            <div className="px-2.5 pb-2.5 space-y-3 border-t border-indigo-100 pt-2">
+                                <div className="flex rounded border border-slate-300 overflow-hidden w-fit">
+                                    {(['previous', 'current'] as const).map(mode => (
+                                        <button
+                                            key={mode}
+                                            onClick={() => setCompare(mode)}
+                                            className={`px-2 py-0.5 ${compare === mode ? 'bg-indigo-600 text-white' : 'bg-white hover:bg-slate-50'}`}
+                                        >
+                                            {mode === 'previous' ? 'Changes in this save' : 'Changes since then'}
+                                        </button>
+                                    ))}
+                                </div>
+
+                                {diff ? <RevisionDiffView diff={diff} /> : (
+                                    <p className="text-slate-400 italic">
+                                        Earliest kept revision: older saves aren't in the history, so there is nothing to compare it with.
+                                    </p>
+                                )}
+
+                                <div className="flex justify-end gap-2 pt-2 border-t border-slate-100">
+                                    {onBranch && (
+                                        <button
+                                            onClick={() => onBranch(revision)}
+                                            className="flex items-center gap-1 font-semibold bg-white border border-slate-200 text-slate-700 px-2 py-1 rounded hover:bg-slate-50"
+                                        >
+                                            <GitBranch size={12} /> Branch
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => onRestore(revision)}
+                                        className="flex items-center gap-1 font-semibold bg-indigo-50 text-indigo-700 px-2 py-1 rounded hover:bg-indigo-100"
+                                    >
+                                        <RotateCcw size={12} /> Restore
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+      </div>
+    </div>
+  );
+};
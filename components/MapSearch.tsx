@@ -0,0 +1,131 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Hex } from '../types';
+import { searchHexes, SearchField } from '../services/search';
+import { Search, X } from 'lucide-react';
+
+interface MapSearchProps {
+  hexes: Hex[];
+  query: string;
+  onQueryChange: (query: string) => void;
+  onJump: (hexId: string) => void;
+  className?: string;
+}
+
+const FIELD_LABELS: Record<SearchField, string> = {
+  label: '',
+  id: 'ID',
+  tag: 'Tag',
+  text: 'Text',
+};
+
+export const MapSearch: React.FC<MapSearchProps> = ({ hexes, query, onQueryChange, onJump, className = '' }) => {
+  const [open, setOpen] = useState(false);
+  const [highlight, setHighlight] = useState(0);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const results = useMemo(() => searchHexes(hexes, query), [hexes, query]);
+
+  // "/" focuses the search box from anywhere outside a text field
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== '/' || e.ctrlKey || e.metaKey || e.altKey) return;
+      const target = e.target as HTMLElement;
+      if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable) return;
+      e.preventDefault();
+      inputRef.current?.focus();
+      setOpen(true);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  const jump = (hexId: string) => {
+    onJump(hexId);
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setOpen(true);
+      setHighlight(h => Math.min(h + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlight(h => Math.max(h - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (results[highlight]) jump(results[highlight].hex.id);
+    } else if (e.key === 'Escape') {
+      if (open && query) setOpen(false);
+      else {
+        onQueryChange('');
+        inputRef.current?.blur();
+      }
+    }
+  };
+
+  const showResults = open && query.trim().length > 0;
+
+  return (
+    <div className={`relative ${className}`}>
+      <div className="flex items-center gap-1 bg-white border border-slate-300 rounded px-1.5 focus-within:ring-1 focus-within:ring-indigo-500 focus-within:border-indigo-500">
+        <Search size={12} className="text-slate-400 shrink-0" />
+        <input
+          ref={inputRef}
+          type="text"
+          className="w-40 text-xs border-0 p-0.5 focus:ring-0"
+          placeholder="Search map  ( / )"
+          value={query}
+          onChange={(e) => { onQueryChange(e.target.value); setOpen(true); setHighlight(0); }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={handleKeyDown}
+          role="combobox"
+          aria-label="Search hexes on this map"
+          aria-expanded={showResults}
+          aria-controls="map-search-results"
+          aria-activedescendant={showResults && results[highlight] ? `map-search-${results[highlight].hex.id}` : undefined}
+        />
+        {query && (
+          <button onClick={() => onQueryChange('')} className="text-slate-400 hover:text-slate-700" aria-label="Clear search">
+            <X size={12} />
+          </button>
+        )}
+      </div>
+
+      {showResults && (
+        <ul
+          id="map-search-results"
+          role="listbox"
+          className="absolute z-50 right-0 mt-1 w-72 bg-white border border-slate-200 rounded-md shadow-lg max-h-80 overflow-y-auto"
+        >
+          {results.length === 0 ? (
+            <li className="px-3 py-2 text-slate-400 italic">No hexes match "{query.trim()}".</li>
+          ) : results.map((result, idx) => (
+            <li
+              key={result.hex.id}
+              id={`map-search-${result.hex.id}`}
+              role="option"
+              aria-selected={idx === highlight}
+              // mousedown so the input's blur doesn't close the list first
+              onMouseDown={(e) => { e.preventDefault(); jump(result.hex.id); }}
+              onMouseEnter={() => setHighlight(idx)}
+              className={`px-2 py-1.5 cursor-pointer ${idx === highlight ? 'bg-indigo-50' : ''}`}
+            >
+              <div className="flex items-center gap-2">
+                <span>{result.hex.icon}</span>
+                <span className="font-semibold text-slate-800 truncate flex-1">{result.hex.label}</span>
+                {FIELD_LABELS[result.field] && (
+                  <span className="text-[10px] text-slate-400 shrink-0">{FIELD_LABELS[result.field]}</span>
+                )}
+              </div>
+              {result.detail && (
+                <div className="text-[11px] text-slate-500 truncate pl-6">{result.detail}</div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,157 @@
+import React, { useRef } from 'react';
+import { Hex } from '../types';
+import { GridMetrics, getBasePosition, getHexDimensions } from '../services/grid';
+import { ZoomIn, ZoomOut, Maximize, Hand } from 'lucide-react';
+
+// Visible part of the grid, in unscaled grid pixels
+export interface ViewportRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// ============================================================
+// ZOOM CONTROLS
+// ============================================================
+
+interface ZoomControlsProps {
+  zoom: number;
+  panMode: boolean;
+  onZoomIn: () => void;
+  onZoomOut: () => void;
+  onReset: () => void;
+  onFit: () => void;
+  onTogglePan: () => void;
+}
+
+export const ZoomControls: React.FC<ZoomControlsProps> = ({
+  zoom,
+  panMode,
+  onZoomIn,
+  onZoomOut,
+  onReset,
+  onFit,
+  onTogglePan
+}) => {
+  const buttonClass = 'p-1.5 text-slate-600 hover:bg-slate-100 hover:text-slate-900 transition-colors';
+
+  return (
+    <div className="flex items-center bg-white/95 border border-slate-200 rounded-lg shadow-sm overflow-hidden text-xs">
+      <button onClick={onZoomOut} className={buttonClass} title="Zoom out (Ctrl + scroll)">
+        <ZoomOut size={14} />
+      </button>
+      <button onClick={onReset} className="px-1.5 py-1 font-mono font-semibold text-slate-600 hover:bg-slate-100 min-w-[3rem]" title="Reset to 100%">
+        {Math.round(zoom * 100)}%
+      </button>
+      <button onClick={onZoomIn} className={buttonClass} title="Zoom in (Ctrl + scroll)">
+        <ZoomIn size={14} />
+      </button>
+      <div className="w-px h-5 bg-slate-200" />
+      <button onClick={onFit} className={buttonClass} title="Fit map to screen">
+        <Maximize size={14} />
+      </button>
+      <button
+        onClick={onTogglePan}
+        className={`${buttonClass} ${panMode ? 'bg-indigo-100 text-indigo-700' : ''}`}
+        title="Pan mode: drag anywhere to move around the map"
+      >
+        <Hand size={14} />
+      </button>
+    </div>
+  );
+};
+
+// ============================================================
+// MINIMAP
+// ============================================================
+
+const MINIMAP_COLORS: Record<string, string> = {
+  core: '#2563eb',
+  ext: '#059669',
+  scaf: '#d97706',
+  student: '#7c3aed',
+  class: '#db2777'
+};
+
+const MINIMAP_WIDTH = 160;
+const MINIMAP_MAX_HEIGHT = 120;
+
+interface MinimapProps {
+  hexes: Hex[];
+  gridMetrics: GridMetrics;
+  gridWidth: number;
+  gridHeight: number;
+  viewport: ViewportRect;
+  onNavigate: (center: { x: number; y: number }) => void;
+}
+
+export const Minimap: React.FC<MinimapProps> = ({
+  hexes,
+  gridMetrics,
+  gridWidth,
+  gridHeight,
+  viewport,
+  onNavigate
+}) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const draggingRef = useRef(false);
+
+  const scale = Math.min(MINIMAP_WIDTH / gridWidth, MINIMAP_MAX_HEIGHT / gridHeight);
+  const width = gridWidth * scale;
+  const height = gridHeight * scale;
+
+  const navigateTo = (e: React.PointerEvent) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    onNavigate({ x: (e.clientX - rect.left) / scale, y: (e.clientY - rect.top) / scale });
+  };
+
+  return (
+    <div className="bg-white/95 border border-slate-200 rounded-lg shadow-sm p-1">
+      <svg
+        ref={svgRef}
+        width={width}
+        height={height}
+        viewBox={`0 0 ${gridWidth} ${gridHeight}`}
+        className="block cursor-pointer"
+        style={{ touchAction: 'none' }}
+        onPointerDown={(e) => {
+          e.stopPropagation();
+          draggingRef.current = true;
+          (e.target as Element).setPointerCapture?.(e.pointerId);
+          navigateTo(e);
+        }}
+        onPointerMove={(e) => { if (draggingRef.current) navigateTo(e); }}
+        onPointerUp={() => { draggingRef.current = false; }}
+        onPointerCancel={() => { draggingRef.current = false; }}
+      >
+        {hexes.map(hex => {
+          const pos = getBasePosition(hex.row, hex.col, gridMetrics);
+          const dims = getHexDimensions(hex.size, gridMetrics);
+          return (
+            <rect
+              key={hex.id}
+              x={pos.x}
+              y={pos.y + dims.height * 0.1}
+              width={dims.width}
+              height={dims.height * 0.8}
+              rx={dims.width * 0.2}
+              fill={MINIMAP_COLORS[hex.type] || '#94a3b8'}
+              opacity={0.6}
+            />
+          );
+        })}
+        <rect
+          x={viewport.x}
+          y={viewport.y}
+          width={viewport.width}
+          height={viewport.height}
+          fill="rgba(79, 70, 229, 0.08)"
+          stroke="#4f46e5"
+          strokeWidth={2 / scale}
+        />
+      </svg>
+    </div>
+  );
+};
@@ -0,0 +1,81 @@
+import React from 'react';
+import { isSafeUrl } from '../services/urls';
+
+/**
+ * Minimal Markdown renderer for teacher-written hex descriptions.
+ * Supports headings, bullet and numbered lists, paragraphs, **bold**,
+ * *italic*, `code` and [links](url). Builds React elements directly,
+ * so no HTML from the source is ever injected.
+ */
+
+const INLINE_PATTERN = /(\*\*[^*]+\*\*|\*[^*]+\*|`[^`]+`|\[[^\]]+\]\([^)\s]+\))/g;
+
+function renderInline(text: string, keyPrefix: string): React.ReactNode[] {
+  return text.split(INLINE_PATTERN).filter(Boolean).map((part, i) => {
+    const key = `${keyPrefix}-${i}`;
+    if (part.startsWith('**') && part.endsWith('**')) return <strong key={key}>{part.slice(2, -2)}</strong>;
+    if (part.startsWith('`') && part.endsWith('`')) {
+      return <code key={key} className="bg-slate-100 px-1 rounded text-[0.9em]">{part.slice(1, -1)}</code>;
+    }
+    const link = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    if (link) {
+      return isSafeUrl(link[2])
+        ? <a key={key} href={link[2]} target="_blank" rel="noopener noreferrer" className="text-indigo-600 underline">{link[1]}</a>
+        : <span key={key}>{link[1]}</span>;
+    }
+    if (part.length > 2 && part.startsWith('*') && part.endsWith('*')) return <em key={key}>{part.slice(1, -1)}</em>;
+    return <React.Fragment key={key}>{part}</React.Fragment>;
+  });
+}
+
+export const Markdown: React.FC<{ source: string; className?: string }> = ({ source, className = '' }) => {
+  const blocks: React.ReactNode[] = [];
+  let list: { ordered: boolean; items: string[] } | null = null;
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (!paragraph.length) return;
+    const key = `p-${blocks.length}`;
+    blocks.push(<p key={key}>{renderInline(paragraph.join(' '), key)}</p>);
+    paragraph = [];
+  };
+  const flushList = () => {
+    if (!list) return;
+    const key = `l-${blocks.length}`;
+    const items = list.items.map((item, i) => <li key={i}>{renderInline(item, `${key}-${i}`)}</li>);
+    blocks.push(list.ordered
+      ? <ol key={key} className="list-decimal pl-5 space-y-0.5">{items}</ol>
+      : <ul key={key} className="list-disc pl-5 space-y-0.5">{items}</ul>);
+    list = null;
+  };
+
+  source.split('\n').forEach(raw => {
+    const line = raw.trim();
+    const heading = line.match(/^(#{1,3})\s+(.*)$/);
+    const bullet = line.match(/^[-*]\s+(.*)$/);
+    const numbered = line.match(/^\d+[.)]\s+(.*)$/);
+
+    if (!line) {
+      flushParagraph();
+      flushList();
+    } else if (heading) {
+      flushParagraph();
+      flushList();
+      const key = `h-${blocks.length}`;
+      blocks.push(<p key={key} className="font-bold text-slate-800">{renderInline(heading[2], key)}</p>);
+    } else if (bullet || numbered) {
+      flushParagraph();
+      const ordered = !!numbered;
+      if (list && list.ordered !== ordered) flushList();
+      if (!list) list = { ordered, items: [] };
+      list.items.push((bullet || numbered)![1]);
+    } else {
+      flushList();
+      paragraph.push(line);
+    }
+  });
+  flushParagraph();
+  flushList();
+
+  return <div className={`space-y-2 ${className}`}>{blocks}</div>;
+};
@@ -0,0 +1,63 @@
+import React from 'react';
+import { Hex, MapRegion } from '../types';
+import { GridMetrics, Point, getBasePosition } from '../services/grid';
+import { getRegionBounds } from '../services/regions';
+
+interface RegionLayerProps {
+  regions: MapRegion[];
+  hexes: Hex[];
+  gridMetrics: GridMetrics;
+  width: number;
+  height: number;
+  dragPositions?: Record<string, Point>;
+  // Regions drawn faintly, e.g. when a region filter is active
+  dimmedRegionIds?: string[];
+}
+
+export const RegionLayer: React.FC<RegionLayerProps> = ({
+  regions,
+  hexes,
+  gridMetrics,
+  width,
+  height,
+  dragPositions = {},
+  dimmedRegionIds = []
+}) => {
+  const positionOf = (hex: Hex) => dragPositions[hex.id] || getBasePosition(hex.row, hex.col, gridMetrics);
+
+  return (
+    <svg className="absolute inset-0 pointer-events-none z-0" width={width} height={height}>
+      {regions.map(region => {
+        const bounds = getRegionBounds(region, hexes, gridMetrics, positionOf);
+        if (!bounds) return null;
+        const dimmed = dimmedRegionIds.includes(region.id);
+        return (
+          <g key={region.id} opacity={dimmed ? 0.3 : 1}>
+            <title>{region.description ? `${region.title}: ${region.description}` : region.title}</title>
+            <rect
+              x={bounds.x}
+              y={bounds.y}
+              width={bounds.width}
+              height={bounds.height}
+              rx={18}
+              fill={region.color}
+              fillOpacity={0.1}
+              stroke={region.color}
+              strokeOpacity={0.5}
+              strokeWidth={2}
+            />
+            <text
+              x={bounds.x + 10}
+              y={Math.max(14, bounds.y - 6)}
+              fill={region.color}
+              fontSize={12}
+              fontWeight={700}
+            >
+              {region.title}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
@@ -0,0 +1,123 @@
+import React from 'react';
+import { Hex, MapRegion } from '../types';
+import { REGION_COLORS } from '../services/regions';
+import { X, Group, Plus, Trash2, MousePointerClick } from 'lucide-react';
+
+interface RegionsPanelProps {
+  regions: MapRegion[];
+  hexes: Hex[];
+  selectedHexIds: string[];
+  onAdd: () => void;
+  onUpdate: (regionId: string, updates: Partial<MapRegion>) => void;
+  onDelete: (regionId: string) => void;
+  onAssign: (regionId: string, hexIds: string[]) => void;
+  onSelectMembers: (regionId: string) => void;
+  onClose: () => void;
+}
+
+export const RegionsPanel: React.FC<RegionsPanelProps> = ({
+  regions,
+  hexes,
+  selectedHexIds,
+  onAdd,
+  onUpdate,
+  onDelete,
+  onAssign,
+  onSelectMembers,
+  onClose
+}) => {
+  const selectionCount = selectedHexIds.length;
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end items-stretch md:items-start md:p-4 bg-slate-900/20 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white w-full md:w-80 h-full md:h-auto md:max-h-[85vh] shadow-2xl md:rounded-xl flex flex-col animate-in slide-in-from-right duration-300"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-4 border-b border-slate-100 bg-slate-50/50 md:rounded-t-xl">
+            <h2 className="font-bold text-slate-800 flex items-center gap-2">
+                <Group size={18} className="text-indigo-600"/> Regions
+            </h2>
+            <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded-full text-slate-500 transition-colors">
+                <X size={20} />
+            </button>
+        </div>
+
+        <div className="overflow-y-auto p-4 space-y-4 flex-1">
+            <button
+                onClick={onAdd}
+                className="w-full flex items-center justify-center gap-1 text-xs font-semibold bg-indigo-50 text-indigo-700 px-2 py-2 rounded hover:bg-indigo-100"
+            >
+                <Plus size={14} /> New region{selectionCount > 0 ? ` from ${selectionCount} selected` : ''}
+            </button>
+
+            {regions.length === 0 && (
+                <p className="text-xs text-slate-400 italic text-center">
+                    Group hexes into labelled bands such as "Week 1" or "Lab skills". Select hexes on the map first to put them straight into a new region.
+                </p>
+            )}
+
+            {regions.map(region => {
+                const memberCount = hexes.filter(h => h.regionId === region.id).length;
+                return (
+                    <section key={region.id} className="rounded-lg border border-slate-200 p-3 space-y-2" style={{ borderLeft: `4px solid ${region.color}` }}>
+                        <div className="flex items-center gap-2">
+                            <input
+                                type="text"
+                                className="flex-1 min-w-0 text-sm font-semibold border-slate-300 rounded py-1"
+                                value={region.title}
+                                onChange={e => onUpdate(region.id, { title: e.target.value })}
+                                aria-label="Region title"
+                            />
+                            <button
+                                onClick={() => onDelete(region.id)}
+                                className="text-slate-400 hover:text-red-500"
+                                title="Delete region (its hexes stay on the map)"
+                            >
+                                <Trash2 size={14} />
+                            </button>
+                        </div>
+                        <div className="flex gap-1.5" role="radiogroup" aria-label="Region colour">
+                            {REGION_COLORS.map(color => (
+                                <button
+                                    key={color}
+                                    onClick={() => onUpdate(region.id, { color })}
+                                    className={`w-5 h-5 rounded-full border-2 ${region.color === color ? 'border-slate-800' : 'border-white'}`}
+                                    style={{ backgroundColor: color }}
+                                    role="radio"
+                                    aria-checked={region.color === color}
+                                    aria-label={color}
+                                />
+                            ))}
+                        </div>
+                        <textarea
+                            className="w-full text-xs border-slate-300 rounded h-14"
+                            placeholder="Description (optional)"
+                            value={region.description || ''}
+                            onChange={e => onUpdate(region.id, { description: e.target.value })}
+                        />
+                        <div className="flex items-center justify-between text-[10px]">
+                            <button
+                                onClick={() => onSelectMembers(region.id)}
+                                disabled={memberCount === 0}
+                                className="flex items-center gap-1 text-slate-600 hover:text-indigo-700 disabled:opacity-50 disabled:hover:text-slate-600"
+                                title="Select this region's hexes on the map"
+                            >
+                                <MousePointerClick size={12} /> {memberCount} hex{memberCount === 1 ? '' : 'es'}
+                            </button>
+                            <button
+                                onClick={() => onAssign(region.id, selectedHexIds)}
+                                disabled={selectionCount === 0}
+                                className="font-semibold bg-white border border-slate-200 text-slate-700 px-2 py-1 rounded hover:bg-slate-50 disabled:opacity-50"
+                            >
+                                Add {selectionCount || ''} selected
+                            </button>
+                        </div>
+                    </section>
+                );
+            })}
+        </div>
+      </div>
+    </div>
+  );
+};
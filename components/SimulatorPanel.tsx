@@ -0,0 +1,110 @@
+import React from 'react';
+import { LearningMap, HexProgress } from '../types';
+import { HexLockState, ProgressMap } from '../services/locking';
+import { FlaskConical, RotateCcw, GitBranch } from 'lucide-react';
+
+interface SimulatorPanelProps {
+  map: LearningMap;
+  progress: ProgressMap;
+  lockStates: Record<string, HexLockState>;
+  onChange: (hexId: string, updates: { status?: HexProgress; score?: number }) => void;
+  onReset: () => void;
+  onSelectHex?: (hexId: string) => void;
+}
+
+export const SimulatorPanel: React.FC<SimulatorPanelProps> = ({
+  map,
+  progress,
+  lockStates,
+  onChange,
+  onReset,
+  onSelectHex
+}) => {
+  const hexes = [...map.hexes].sort((a, b) => a.row - b.row || a.col - b.col);
+  const byId = new Map(map.hexes.map(h => [h.id, h]));
+  const unlockedCount = hexes.filter(h => !lockStates[h.id]?.locked).length;
+
+  // Branch connections this hypothetical student has been routed through
+  const activeBranches = hexes.flatMap(target =>
+    (lockStates[target.id]?.requirements || [])
+      .filter(r => r.met && r.type !== 'default')
+      .map(r => ({ from: byId.get(r.hexId), to: target, type: r.type, condition: r.condition }))
+  );
+
+  return (
+    <div className="h-full flex flex-col bg-white">
+      <div className="flex justify-between items-center mb-3 pb-2 border-b border-slate-200">
+        <h3 className="font-bold text-slate-800 text-sm flex items-center gap-2">
+          <FlaskConical size={16} className="text-indigo-600" /> Student Simulator
+        </h3>
+        <button
+          onClick={onReset}
+          className="flex items-center gap-1 text-[10px] text-slate-500 hover:text-slate-800 font-semibold"
+          title="Clear all simulated progress"
+        >
+          <RotateCcw size={12} /> Reset
+        </button>
+      </div>
+
+      <div className="bg-slate-50 rounded-lg p-2 text-xs mb-3 flex justify-between">
+        <span className="text-slate-600">Unlocked</span>
+        <span className="font-bold text-slate-800">{unlockedCount} / {hexes.length}</span>
+      </div>
+
+      {activeBranches.length > 0 && (
+        <section className="mb-3">
+          <h4 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-1 flex items-center gap-1">
+            <GitBranch size={12} /> Active Branches
+          </h4>
+          <ul className="space-y-1 text-xs">
+            {activeBranches.map(b => (
+              <li key={`${b.from?.id}-${b.to.id}-${b.type}`} className="text-slate-700">
+                {b.from?.label} → <b>{b.to.label}</b>
+                <span className="text-[10px] text-slate-400 ml-1">{b.condition || b.type}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <div className="flex-1 overflow-y-auto min-h-0 space-y-1.5 pr-1">
+        {hexes.map(hex => {
+          const record = progress[hex.id] || {};
+          const locked = lockStates[hex.id]?.locked;
+          return (
+            <div key={hex.id} className={`rounded border p-2 ${locked ? 'bg-slate-50 border-slate-200' : 'bg-white border-emerald-200'}`}>
+              <button
+                onClick={() => onSelectHex?.(hex.id)}
+                className="w-full flex items-center gap-2 text-xs text-left mb-1.5"
+              >
+                <span>{locked ? '🔒' : hex.icon}</span>
+                <span className={`flex-1 truncate font-semibold ${locked ? 'text-slate-400' : 'text-slate-800'}`}>{hex.label}</span>
+              </button>
+              <div className="flex gap-2">
+                <select
+                  value={record.status || 'not_started'}
+                  onChange={(e) => onChange(hex.id, { status: e.target.value as HexProgress })}
+                  className="flex-1 text-[10px] py-1 border-slate-300 rounded"
+                >
+                  <option value="not_started">Not started</option>
+                  <option value="in_progress">In progress</option>
+                  <option value="completed">Completed</option>
+                  <option value="mastered">Mastered</option>
+                </select>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  placeholder="Score %"
+                  value={record.score ?? ''}
+                  onChange={(e) => onChange(hex.id, { score: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  className="w-20 text-[10px] py-1 border-slate-300 rounded"
+                />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
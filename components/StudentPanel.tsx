@@ -1,16 +1,106 @@
 
 import React from 'react';
-import { Hex, HexProgress } from '../types';
-import { Mail, ExternalLink, RefreshCw, CheckCircle, Clock, Circle } from 'lucide-react';
+import { Hex, HexProgress, HexResourceType } from '../types';
+import { HexLockState } from '../services/locking';
+import { Recommendation } from '../services/recommendations';
+import { isSafeUrl } from '../services/urls';
+import { Markdown } from './Markdown';
+import { Mail, ExternalLink, RefreshCw, CheckCircle, Clock, Circle, Lock, Sparkles, Video, FileText, ClipboardList, Wrench, Calendar, Timer } from 'lucide-react';
 
 interface StudentPanelProps {
   hex: Hex;
   teacherEmail?: string;
   mapTitle: string;
   onUpdateProgress?: (hexId: string, status: HexProgress) => void;
+  lockState?: HexLockState;
+  recommendations?: Recommendation[];
+  onSelectHex?: (hexId: string) => void;
 }
 
-export const StudentPanel: React.FC<StudentPanelProps> = ({ hex, teacherEmail, mapTitle, onUpdateProgress }) => {
+const RESOURCE_ICONS: Record<HexResourceType, React.ElementType> = {
+  video: Video,
+  doc: FileText,
+  worksheet: ClipboardList,
+  tool: Wrench
+};
+
+const formatMinutes = (minutes: number) => {
+  if (minutes < 60) return `${minutes} min`;
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  return m ? `${h} h ${m} min` : `${h} h`;
+};
+
+const todayIso = () => {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+interface NextUpCardProps {
+  recommendations: Recommendation[];
+  currentHexId?: string;
+  onSelectHex?: (hexId: string) => void;
+}
+
+export const NextUpCard: React.FC<NextUpCardProps> = ({ recommendations, currentHexId, onSelectHex }) => {
+  if (recommendations.length === 0) {
+    return (
+      <div className="bg-emerald-50 border border-emerald-200 rounded-lg p-3 text-xs text-emerald-800">
+        Nothing left to do here — nice work!
+      </div>
+    );
+  }
+
+  const [top, ...others] = recommendations;
+
+  return (
+    <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-xs">
+      <div className="flex items-center gap-1.5 font-bold text-amber-800 uppercase tracking-wide text-[10px] mb-2">
+        <Sparkles size={12} /> Next up
+      </div>
+      <button
+        onClick={() => onSelectHex?.(top.hexId)}
+        disabled={top.hexId === currentHexId}
+        className="w-full text-left flex items-center gap-2 disabled:cursor-default"
+      >
+        <span className="text-xl">{top.hex.icon}</span>
+        <span className="font-bold text-slate-900 text-sm leading-tight">{top.hex.label}</span>
+      </button>
+      {top.reasons.length > 0 && (
+        <ul className="mt-1.5 space-y-0.5 text-amber-900 list-disc list-inside">
+          {top.reasons.slice(0, 3).map(reason => <li key={reason}>{reason}</li>)}
+        </ul>
+      )}
+      {others.length > 0 && (
+        <div className="mt-2 pt-2 border-t border-amber-200 space-y-1">
+          <span className="text-[10px] text-amber-700 font-semibold">Also good:</span>
+          {others.map(rec => (
+            <button
+              key={rec.hexId}
+              onClick={() => onSelectHex?.(rec.hexId)}
+              className="w-full text-left flex items-center gap-2 text-slate-700 hover:text-slate-900"
+              title={rec.reasons.join(' • ')}
+            >
+              <span>{rec.hex.icon}</span>
+              <span className="truncate">{rec.hex.label}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const StudentPanel: React.FC<StudentPanelProps> = ({ 
+  hex, 
+  teacherEmail, 
+  mapTitle, 
+  onUpdateProgress, 
+  lockState, 
+  recommendations, 
+  onSelectHex 
+}) => {
+  const isLocked = !!lockState?.locked;
   
   const getProgressLabel = (p?: HexProgress) => {
     if (p === 'mastered') return { label: 'Mastered', color: 'bg-purple-100 text-purple-800 border-purple-200' };
@@ -20,9 +110,13 @@ export const StudentPanel: React.FC<StudentPanelProps> = ({ hex, teacherEmail, m
   };
 
   const progress = getProgressLabel(hex.progress);
+  const isDone = hex.progress === 'completed' || hex.progress === 'mastered';
+  // ISO dates compare correctly as strings
+  const isOverdue = !!hex.dueDate && !isDone && hex.dueDate < todayIso();
+  const resources = (hex.resources || []).filter(r => r.url);
 
   const handleOpenResource = () => {
-    if (hex.linkUrl) window.open(hex.linkUrl, '_blank');
+    if (isSafeUrl(hex.linkUrl)) window.open(hex.linkUrl, '_blank', 'noopener');
   };
 
   const handleEmailTeacher = () => {
@@ -62,16 +156,94 @@ export const StudentPanel: React.FC<StudentPanelProps> = ({ hex, teacherEmail, m
         </div>
         <div className="flex items-center justify-between mt-2">
             <div className="text-xs font-bold text-slate-600 uppercase tracking-wide">
-            {hex.type} • {hex.status || 'Active'}
+            {hex.type} • {isLocked ? 'Locked' : (hex.status === 'locked' ? 'Active' : hex.status || 'Active')}
             </div>
             <div className="text-[10px] text-slate-400 font-mono">
             Pos: {hex.row}, {hex.col}
             </div>
         </div>
+        {(!!hex.estimatedMinutes || !!hex.dueDate) && (
+          <div className="flex flex-wrap gap-2 mt-3 text-[11px] font-semibold">
+            {!!hex.estimatedMinutes && (
+              <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-slate-100 text-slate-700">
+                <Timer size={12} /> {formatMinutes(hex.estimatedMinutes)}
+              </span>
+            )}
+            {hex.dueDate && (
+              <span className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-full ${isOverdue ? 'bg-red-100 text-red-700' : 'bg-slate-100 text-slate-700'}`}>
+                <Calendar size={12} /> {isOverdue ? 'Overdue' : 'Due'} {new Date(hex.dueDate + 'T00:00:00').toLocaleDateString()}
+              </span>
+            )}
+          </div>
+        )}
       </div>
 
+      {/* Next up */}
+      {recommendations && (
+        <div className="mb-4">
+          <NextUpCard recommendations={recommendations} currentHexId={hex.id} onSelectHex={onSelectHex} />
+        </div>
+      )}
+
+      {/* Lock explanation */}
+      {isLocked && lockState && (
+        <div className="mb-4 bg-slate-50 border border-slate-200 rounded-lg p-3 text-xs">
+          <div className="flex items-center gap-2 font-bold text-slate-700 mb-1">
+            <Lock size={14} /> Locked
+          </div>
+          <p className="text-slate-600 mb-2">{lockState.unlockHint}</p>
+          {lockState.reason === 'prerequisites' && lockState.requirements.length > 0 && (
+            <ul className="space-y-1">
+              {lockState.requirements.map(req => (
+                <li key={`${req.hexId}-${req.type}`} className="flex items-center gap-2">
+                  {req.met 
+                    ? <CheckCircle size={12} className="text-green-600 shrink-0" /> 
+                    : <Circle size={12} className="text-slate-400 shrink-0" />}
+                  <span className={req.met ? 'text-slate-400 line-through' : 'text-slate-700'}>{req.label}</span>
+                  {req.type !== 'default' && (
+                    <span className="text-[10px] text-slate-400">{req.condition || req.type}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
       {/* Curriculum Meta */}
       <div className="space-y-3 mb-6 text-sm flex-1 overflow-y-auto min-h-0 text-slate-700">
+        {hex.description && (
+          <Markdown source={hex.description} className="text-slate-700 leading-relaxed" />
+        )}
+        {hex.instructions && (
+          <div className="bg-sky-50 p-2 rounded border border-sky-100">
+            <span className="font-bold text-sky-900 block text-xs uppercase mb-1">Instructions</span>
+            <p className="text-slate-700 whitespace-pre-line">{hex.instructions}</p>
+          </div>
+        )}
+        {resources.length > 0 && (
+          <div>
+            <span className="font-bold text-slate-800 block text-xs uppercase mb-1">Resources</span>
+            <ul className="space-y-1">
+              {resources.map(resource => {
+                const Icon = RESOURCE_ICONS[resource.type] || FileText;
+                return (
+                  <li key={resource.id}>
+                    <button
+                      onClick={() => { if (isSafeUrl(resource.url)) window.open(resource.url, '_blank', 'noopener'); }}
+                      disabled={isLocked || !isSafeUrl(resource.url)}
+                      className="w-full flex items-center gap-2 text-left px-2 py-1.5 rounded border border-slate-200 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Icon size={14} className="text-slate-500 shrink-0" />
+                      <span className="truncate flex-1">{resource.title || resource.url}</span>
+                      <span className="text-[10px] uppercase text-slate-400">{resource.type}</span>
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
         {hex.curriculum?.sbarDomains && hex.curriculum.sbarDomains.length > 0 && (
            <div className="bg-slate-50 p-2 rounded border border-slate-100">
              <span className="font-bold text-slate-800 block text-xs uppercase mb-1">SBAR Focus</span>
@@ -100,7 +272,7 @@ export const StudentPanel: React.FC<StudentPanelProps> = ({ hex, teacherEmail, m
 
       {/* Student Controls */}
       <div className="mt-auto pt-4 border-t border-slate-200">
-        {onUpdateProgress && (
+        {onUpdateProgress && !isLocked && (
           <div className="mb-4">
             <label className="text-xs font-bold text-slate-600 block mb-2 uppercase">My Progress</label>
             <div className="flex gap-2 justify-between">
@@ -133,7 +305,7 @@ export const StudentPanel: React.FC<StudentPanelProps> = ({ hex, teacherEmail, m
         <div className="space-y-3">
           <button 
             onClick={handleOpenResource}
-            disabled={!hex.linkUrl}
+            disabled={!isSafeUrl(hex.linkUrl) || isLocked}
             className="w-full flex items-center justify-center gap-2 text-sm font-bold py-3 rounded-lg border border-slate-300 bg-slate-50 hover:bg-white hover:border-slate-400 text-slate-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all shadow-sm"
           >
             <ExternalLink size={16} /> Open Resource
@@ -0,0 +1,42 @@
+import React from 'react';
+import { HexTemplate } from '../types';
+import { LayoutTemplate } from 'lucide-react';
+
+// Drag payload type; the grid reads the template id back out of it on drop
+export const TEMPLATE_DRAG_TYPE = 'application/x-hex-template';
+
+interface TemplatePaletteProps {
+  templates: HexTemplate[];
+  onAdd: (template: HexTemplate) => void;
+}
+
+export const TemplatePalette: React.FC<TemplatePaletteProps> = ({ templates, onAdd }) => {
+  if (templates.length === 0) return null;
+
+  return (
+    <div className="bg-white px-4 py-1.5 border-b border-slate-200 flex items-center gap-2 text-xs overflow-x-auto">
+      <span className="font-bold text-slate-500 flex items-center gap-1 shrink-0">
+        <LayoutTemplate size={12} /> Templates:
+      </span>
+      {templates.map(template => (
+        <button
+          key={template.templateId}
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.setData(TEMPLATE_DRAG_TYPE, template.templateId);
+            e.dataTransfer.effectAllowed = 'copy';
+          }}
+          onClick={() => onAdd(template)}
+          className="shrink-0 flex items-center gap-1 px-2 py-1 rounded-full border border-slate-200 bg-slate-50 hover:bg-indigo-50 hover:border-indigo-300 text-slate-700 cursor-grab active:cursor-grabbing"
+          title={`Drag onto the grid, or click to add "${template.defaultLabel || template.name}" below the map`}
+        >
+          <span>{template.icon || '📚'}</span>
+          {template.name}
+          {template.defaultType && (
+            <span className="text-[9px] uppercase text-slate-400">{template.defaultType}</span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+};
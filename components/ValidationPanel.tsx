@@ -0,0 +1,86 @@
+import React, { useMemo } from 'react';
+import { LearningMap } from '../types';
+import { validateMap, ValidationIssue, ValidationIssueKind } from '../services/validation';
+import { X, ShieldCheck, AlertTriangle, AlertCircle, Wrench } from 'lucide-react';
+
+interface ValidationPanelProps {
+  map: LearningMap;
+  onClose: () => void;
+  onFix: (issue: ValidationIssue) => void;
+  onSelectHex?: (hexId: string) => void;
+}
+
+const KIND_LABELS: Record<ValidationIssueKind, string> = {
+  dangling_edge: 'Dangling Connections',
+  invalid_rule: 'Invalid Branch Rules',
+  cycle: 'Loops',
+  unreachable: 'Unreachable Hexes',
+  orphan: 'Orphan Hexes',
+  duplicate_position: 'Overlapping Hexes',
+};
+
+export const ValidationPanel: React.FC<ValidationPanelProps> = ({ map, onClose, onFix, onSelectHex }) => {
+  const issues = useMemo(() => validateMap(map), [map]);
+
+  const grouped = (Object.keys(KIND_LABELS) as ValidationIssueKind[])
+    .map(kind => ({ kind, items: issues.filter(i => i.kind === kind) }))
+    .filter(g => g.items.length > 0);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end items-stretch md:items-start md:p-4 bg-slate-900/20 backdrop-blur-sm animate-in fade-in duration-200" onClick={onClose}>
+      <div
+        className="bg-white w-full md:w-80 h-full md:h-auto md:max-h-[85vh] shadow-2xl md:rounded-xl flex flex-col animate-in slide-in-from-right duration-300"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-4 border-b border-slate-100 bg-slate-50/50 md:rounded-t-xl">
+            <h2 className="font-bold text-slate-800 flex items-center gap-2">
+                <ShieldCheck size={18} className="text-indigo-600"/> Map Check
+            </h2>
+            <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded-full text-slate-500 transition-colors">
+                <X size={20} />
+            </button>
+        </div>
+
+        <div className="overflow-y-auto p-4 space-y-6 flex-1">
+            {issues.length === 0 ? (
+                <div className="text-center py-8 text-sm text-emerald-600 font-medium">
+                    No problems found.
+                </div>
+            ) : grouped.map(group => (
+                <section key={group.kind}>
+                    <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-wider mb-2">
+                        {KIND_LABELS[group.kind]} ({group.items.length})
+                    </h3>
+                    <div className="space-y-2">
+                        {group.items.map(issue => (
+                            <div
+                                key={issue.id}
+                                className={`rounded-lg p-2.5 text-xs border ${issue.severity === 'error' ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}
+                            >
+                                <button
+                                    onClick={() => onSelectHex?.(issue.hexIds[0])}
+                                    className="flex items-start gap-2 text-left w-full"
+                                >
+                                    {issue.severity === 'error'
+                                        ? <AlertCircle size={14} className="text-red-600 shrink-0 mt-0.5" />
+                                        : <AlertTriangle size={14} className="text-amber-600 shrink-0 mt-0.5" />}
+                                    <span className={issue.severity === 'error' ? 'text-red-800' : 'text-amber-800'}>{issue.message}</span>
+                                </button>
+                                <div className="flex justify-end mt-2">
+                                    <button
+                                        onClick={() => onFix(issue)}
+                                        className="flex items-center gap-1 text-[10px] font-semibold bg-white border border-slate-200 text-slate-700 px-2 py-1 rounded hover:bg-slate-50"
+                                    >
+                                        <Wrench size={12} /> {issue.fixLabel}
+                                    </button>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </section>
+            ))}
+        </div>
+      </div>
+    </div>
+  );
+};
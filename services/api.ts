@@ -5,13 +5,15 @@
  * The API URL is saved to localStorage and persists across sessions.
  */
 
-import { LearningMap, HexProgress } from '../types';
+import { LearningMap, HexProgress, HexTemplate } from '../types';
+import { SavePrecondition } from './conflicts';
 
 // Types
 export interface ApiResponse {
   success: boolean;
   error?: string;
   code?: number;
+  offline?: boolean; // The request never reached the backend (network error)
   [key: string]: any;
 }
 
@@ -141,34 +143,49 @@ class ApiService {
       return { success: false, error: 'API URL not configured' } as T;
     }
 
+    let url: URL;
     try {
-      const url = new URL(this.apiUrl);
-      url.searchParams.set('action', action);
-      
-      Object.entries(params).forEach(([key, value]) => {
-        if (value !== undefined && value !== null) {
-          url.searchParams.set(key, typeof value === 'object' ? JSON.stringify(value) : String(value));
-        }
-      });
+      url = new URL(this.apiUrl);
+    } catch (error) {
+      return { success: false, error: 'Invalid API URL' } as T;
+    }
+    url.searchParams.set('action', action);
 
-      console.log('API:', action);
-      
-      const response = await fetch(url.toString(), { 
-        method: 'GET', 
-        redirect: 'follow' 
-      });
-      
-      if (!response.ok) {
-        throw new Error('HTTP ' + response.status);
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined && value !== null) {
+        url.searchParams.set(key, typeof value === 'object' ? JSON.stringify(value) : String(value));
       }
-      
-      const text = await response.text();
-      return JSON.parse(text) as T;
-      
+    });
+
+    console.log('API:', action);
+
+    // Only a request that never reached the backend counts as offline; HTTP and
+    // parse errors are real failures, so the outbox gives up on them eventually
+    let response: Response;
+    try {
+      response = await fetch(url.toString(), {
+        method: 'GET',
+        redirect: 'follow'
+      });
     } catch (error) {
       const msg = error instanceof Error ? error.message : 'Network error';
       console.error('API Error (' + action + '):', msg);
-      return { success: false, error: msg } as T;
+      const offline = error instanceof TypeError || (typeof navigator !== 'undefined' && navigator.onLine === false);
+      return { success: false, error: msg, offline } as T;
+    }
+
+    if (!response.ok) {
+      console.error('API Error (' + action + '): HTTP ' + response.status);
+      return { success: false, error: 'HTTP ' + response.status, code: response.status } as T;
+    }
+
+    try {
+      const text = await response.text();
+      return JSON.parse(text) as T;
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : 'Invalid response';
+      console.error('API Error (' + action + '): bad response:', msg);
+      return { success: false, error: 'Invalid response from server' } as T;
     }
   }
 
@@ -228,9 +245,22 @@ class ApiService {
   async getMap(mapId: string): Promise<ApiResponse> { 
     return this.request('getMap', { mapId }); 
   }
+
+  // The backend snapshots the map on each saveMap sent with `snapshot`; this returns that log, newest first
+  async getMapRevisions(mapId: string): Promise<ApiResponse> {
+    return this.request('getMapRevisions', { mapId });
+  }
   
-  async saveMap(map: LearningMap): Promise<ApiResponse> {
+  // requestId lets the backend recognise a replayed write it has already applied.
+  // With a base the backend refuses the write (code 409, current map attached)
+  // when the stored map is no longer the revision this edit started from.
+  // With snapshot the saved map is also added to its revision log.
+  async saveMap(map: LearningMap, options: { requestId?: string; base?: SavePrecondition; snapshot?: boolean } = {}): Promise<ApiResponse> {
     return this.request('saveMap', {
+      requestId: options.requestId,
+      snapshot: options.snapshot,
+      baseRevision: options.base?.revision,
+      baseUpdatedAt: options.base?.updatedAt,
       mapId: map.mapId, 
       title: map.title, 
       courseId: map.courseId, 
@@ -238,7 +268,9 @@ class ApiService {
       teacherEmail: map.teacherEmail, 
       hexes: map.hexes, 
       ubdData: map.ubdData, 
-      meta: map.meta
+      meta: map.meta,
+      settings: map.settings,
+      regions: map.regions
     });
   }
   
@@ -262,12 +294,22 @@ class ApiService {
     return this.request('getHexTemplates'); 
   }
   
+  async saveTemplate(template: HexTemplate): Promise<ApiResponse> { 
+    return this.request('saveHexTemplate', { template }); 
+  }
+  
   async getCurriculum(): Promise<ApiResponse> { 
     return this.request('getCurriculumConfig'); 
   }
   
-  async saveProgress(mapId: string, hexId: string, status: HexProgress, score?: number): Promise<ApiResponse> { 
-    return this.request('updateProgress', { mapId, hexId, status, score }); 
+  async saveProgress(
+    mapId: string,
+    hexId: string,
+    status: HexProgress,
+    score?: number,
+    options: { requestId?: string; email?: string } = {}
+  ): Promise<ApiResponse> { 
+    return this.request('updateProgress', { mapId, hexId, status, score, ...options }); 
   }
   
   async getProgress(mapId: string): Promise<ApiResponse> { 
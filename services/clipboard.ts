@@ -0,0 +1,97 @@
+/**
+ * Hex Clipboard - Copy/paste blocks of hexes within and across maps
+ *
+ * Copied hexes are written to the system clipboard as tagged JSON so any
+ * tab (or another browser window) can paste them. A localStorage copy
+ * covers browsers that deny clipboard read access.
+ */
+
+import { Hex, LearningMap } from '../types';
+import { cellKey, findNearestFreeCell, translateCells } from './grid';
+import { generateHexId } from './ids';
+
+const CLIPBOARD_KIND = 'learning-map/hexes';
+const CLIPBOARD_VERSION = 1;
+const STORAGE_KEY_CLIPBOARD = 'learning_maps_clipboard';
+
+export interface HexClipboard {
+  kind: typeof CLIPBOARD_KIND;
+  version: number;
+  sourceMapId: string;
+  // Top-left cell of the copied block; lands on the paste cell
+  anchor: { row: number; col: number };
+  hexes: Hex[];
+}
+
+export function createClipboard(map: LearningMap, hexIds: string[]): HexClipboard | null {
+  const hexes = map.hexes.filter(h => hexIds.includes(h.id));
+  if (!hexes.length) return null;
+  const top = hexes.reduce((a, b) => (b.row < a.row || (b.row === a.row && b.col < a.col) ? b : a));
+  return {
+    kind: CLIPBOARD_KIND,
+    version: CLIPBOARD_VERSION,
+    sourceMapId: map.mapId,
+    anchor: { row: top.row, col: top.col },
+    hexes: JSON.parse(JSON.stringify(hexes)),
+  };
+}
+
+export function parseClipboard(text: string | null): HexClipboard | null {
+  if (!text) return null;
+  try {
+    const data = JSON.parse(text);
+    if (data?.kind !== CLIPBOARD_KIND || !Array.isArray(data.hexes) || !data.anchor) return null;
+    return data as HexClipboard;
+  } catch (e) {
+    return null;
+  }
+}
+
+export async function writeClipboard(clip: HexClipboard): Promise<void> {
+  const text = JSON.stringify(clip);
+  localStorage.setItem(STORAGE_KEY_CLIPBOARD, text);
+  try {
+    await navigator.clipboard?.writeText(text);
+  } catch (e) {
+    console.warn('System clipboard unavailable, using local copy only');
+  }
+}
+
+export async function readClipboard(): Promise<HexClipboard | null> {
+  try {
+    const fromSystem = parseClipboard(await navigator.clipboard?.readText());
+    if (fromSystem) return fromSystem;
+  } catch (e) {}
+  return parseClipboard(localStorage.getItem(STORAGE_KEY_CLIPBOARD));
+}
+
+/**
+ * Turn clipboard contents into new hexes for `existing`, with the block's
+ * anchor placed on `target`. Ids are regenerated, connections between
+ * copied hexes follow the new ids and connections leaving the block are
+ * dropped. Hexes that would land on an occupied cell take the nearest
+ * free one.
+ */
+export function pasteHexes(
+  clip: HexClipboard,
+  existing: Hex[],
+  target: { row: number; col: number }
+): Hex[] {
+  const idMap = new Map(clip.hexes.map(h => [h.id, generateHexId()]));
+  const cells = translateCells(clip.hexes, clip.anchor, target);
+  const occupied = new Set(existing.map(h => cellKey(h.row, h.col)));
+
+  return clip.hexes.map(hex => {
+    const cell = findNearestFreeCell(occupied, cells[hex.id].row, cells[hex.id].col);
+    occupied.add(cellKey(cell.row, cell.col));
+    return {
+      ...hex,
+      id: idMap.get(hex.id)!,
+      row: cell.row,
+      col: cell.col,
+      connections: (hex.connections || [])
+        .filter(c => idMap.has(c.targetHexId))
+        .map(c => ({ ...c, targetHexId: idMap.get(c.targetHexId)! })),
+    };
+  });
+}
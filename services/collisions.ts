@@ -0,0 +1,69 @@
+/**
+ * Cell Collisions - Resolving drops onto occupied grid cells
+ *
+ * A move is a set of target cells for one or more hexes. Hexes already
+ * sitting on a target cell are either swapped into the mover's old cell,
+ * pushed to the nearest free neighbour, or the move is refused, depending
+ * on the map's collision mode.
+ */
+
+import { CollisionMode, Hex } from '../types';
+import { cellKey, findNearestFreeCell } from './grid';
+import { LayoutResult } from './layout';
+
+export const DEFAULT_COLLISION_MODE: CollisionMode = 'push';
+
+export const COLLISION_MODE_LABELS: Record<CollisionMode, string> = {
+  swap: 'Swap places',
+  push: 'Push aside',
+  refuse: "Don't allow",
+};
+
+export type DropResolution =
+  | { ok: true; cells: LayoutResult; displaced: string[] }
+  | { ok: false; blockedBy: string[] };
+
+// Hexes (outside the moving set) that sit on one of the target cells
+export function findCollisions(hexes: Hex[], targets: LayoutResult): Hex[] {
+  const targetKeys = new Set(Object.values(targets).map(c => cellKey(c.row, c.col)));
+  return hexes.filter(h => !targets[h.id] && targetKeys.has(cellKey(h.row, h.col)));
+}
+
+export function resolveDrop(hexes: Hex[], targets: LayoutResult, mode: CollisionMode): DropResolution {
+  const occupants = findCollisions(hexes, targets);
+  if (occupants.length === 0) return { ok: true, cells: targets, displaced: [] };
+  if (mode === 'refuse') return { ok: false, blockedBy: occupants.map(h => h.id) };
+
+  const cells: LayoutResult = { ...targets };
+  // Cells that will be taken once the move lands
+  const occupied = new Set<string>([
+    ...Object.values(targets).map(c => cellKey(c.row, c.col)),
+    ...hexes.filter(h => !targets[h.id] && !occupants.includes(h)).map(h => cellKey(h.row, h.col)),
+  ]);
+
+  const moverAt = (row: number, col: number) =>
+    hexes.find(h => targets[h.id]?.row === row && targets[h.id]?.col === col);
+
+  occupants.forEach(occupant => {
+    let cell: { row: number; col: number } | null = null;
+
+    if (mode === 'swap') {
+      // Take the old cell of whichever mover landed here. When a group shifts
+      // onto itself that cell is taken too, so follow the chain back to the
+      // cell the group vacated.
+      let mover = moverAt(occupant.row, occupant.col);
+      const seen = new Set<string>();
+      while (mover && occupied.has(cellKey(mover.row, mover.col)) && !seen.has(mover.id)) {
+        seen.add(mover.id);
+        mover = moverAt(mover.row, mover.col);
+      }
+      if (mover && !occupied.has(cellKey(mover.row, mover.col))) cell = { row: mover.row, col: mover.col };
+    }
+    if (!cell) cell = findNearestFreeCell(occupied, occupant.row, occupant.col);
+
+    cells[occupant.id] = cell;
+    occupied.add(cellKey(cell.row, cell.col));
+  });
+
+  return { ok: true, cells, displaced: occupants.map(h => h.id) };
+}
@@ -0,0 +1,208 @@
+/**
+ * Map Conflicts - Detecting and merging concurrent edits
+ *
+ * Every save bumps meta.revision and states the revision it was based on.
+ * If the stored map has moved on in the meantime, someone else saved in
+ * between and the write is refused with a MapConflictError carrying their
+ * version. The two versions are then compared hex by hex against the
+ * common base: a change made on only one side is taken as is, and a hex
+ * changed on both sides needs the teacher to pick one.
+ */
+
+import { Hex, LearningMap } from '../types';
+import { stableStringify } from './drafts';
+
+export const revisionOf = (map: LearningMap | null | undefined) => map?.meta?.revision || 0;
+
+// The saved version an edit started from, checked against the stored map before writing
+export interface SavePrecondition {
+  revision: number;
+  updatedAt?: string;
+}
+
+export const preconditionOf = (map: LearningMap): SavePrecondition =>
+  ({ revision: revisionOf(map), updatedAt: map.meta?.updatedAt });
+
+// Revisions are counters, so two saves made apart (e.g. one queued offline) can share one;
+// the save time tells those apart
+export const isStale = (stored: LearningMap, base: SavePrecondition) =>
+  revisionOf(stored) !== base.revision ||
+  (!!stored.meta?.updatedAt && !!base.updatedAt && stored.meta.updatedAt !== base.updatedAt);
+
+export class MapConflictError extends Error {
+  remote: LearningMap;
+  // Set when the saver knows the common version better than the caller,
+  // e.g. for a save queued offline; null when it isn't known at all
+  base?: LearningMap | null;
+
+  constructor(remote: LearningMap, base?: LearningMap | null) {
+    super('This map was saved by someone else since you opened it.');
+    this.name = 'MapConflictError';
+    this.remote = remote;
+    this.base = base;
+  }
+}
+
+// Which side changed something since the base; 'both' only when the two changes differ
+export type ConflictChange = 'unchanged' | 'local' | 'remote' | 'both';
+export type MergeSide = 'local' | 'remote';
+
+export interface HexConflictRow {
+  hexId: string;
+  label: string;
+  change: ConflictChange;
+  // Missing on a side when the hex was added or deleted there
+  base?: Hex;
+  local?: Hex;
+  remote?: Hex;
+}
+
+export type MapField = 'title' | 'placement' | 'description' | 'ubdData' | 'regions' | 'settings';
+
+export interface MapFieldConflictRow {
+  field: MapField;
+  label: string;
+  change: ConflictChange;
+}
+
+export interface MapConflict {
+  fields: MapFieldConflictRow[];
+  hexes: HexConflictRow[];
+}
+
+export const MAP_FIELD_LABELS: Record<MapField, string> = {
+  title: 'Title',
+  placement: 'Course & unit',
+  description: 'Description',
+  ubdData: 'UbD plan',
+  regions: 'Regions',
+  settings: 'Settings',
+};
+
+// Fields compared as a whole, straight off the map
+type DirectMapField = Exclude<MapField, 'placement' | 'description'>;
+
+export const mapFieldValue = (map: LearningMap | null, field: MapField): unknown => {
+  if (!map) return undefined;
+  switch (field) {
+    case 'placement': return { courseId: map.courseId, unitId: map.unitId };
+    case 'description': return map.meta?.description;
+    default: return map[field];
+  }
+};
+
+// Wrapped so an empty value compares equal to a missing one
+export const valueKey = (value: unknown) => stableStringify({ value });
+
+// Students' progress isn't authored content, so it never makes a hex differ
+const hexKey = (hex?: Hex) => {
+  if (!hex) return '';
+  const { progress, ...rest } = hex;
+  return stableStringify(rest);
+};
+
+function classify(base: string, local: string, remote: string): ConflictChange {
+  if (local === remote) return 'unchanged';
+  if (local === base) return 'remote';
+  if (remote === base) return 'local';
+  return 'both';
+}
+
+// Three-way comparison of two versions against the version both started from.
+// `base` is null when the common version isn't known, making every difference a conflict.
+export function diffMaps(base: LearningMap | null, local: LearningMap, remote: LearningMap): MapConflict {
+  const fields = (Object.keys(MAP_FIELD_LABELS) as MapField[]).map(field => ({
+    field,
+    label: MAP_FIELD_LABELS[field],
+    change: classify(
+      base ? valueKey(mapFieldValue(base, field)) : '\u0000',
+      valueKey(mapFieldValue(local, field)),
+      valueKey(mapFieldValue(remote, field))
+    )
+  }));
+
+  const byId = (map: LearningMap | null) => new Map((map?.hexes || []).map(h => [h.id, h]));
+  const baseHexes = byId(base);
+  const localHexes = byId(local);
+  const remoteHexes = byId(remote);
+
+  // Remote order first, then hexes only this side has
+  const ids = Array.from(new Set([...remoteHexes.keys(), ...localHexes.keys(), ...baseHexes.keys()]));
+  const hexes = ids.map(hexId => {
+    const b = baseHexes.get(hexId);
+    const l = localHexes.get(hexId);
+    const r = remoteHexes.get(hexId);
+    return {
+      hexId,
+      label: (l || r || b)!.label,
+      change: classify(base ? hexKey(b) : '\u0000', hexKey(l), hexKey(r)),
+      base: b,
+      local: l,
+      remote: r
+    };
+  });
+
+  return { fields, hexes };
+}
+
+// Hex properties that differ between any two of the versions that have the hex
+export function changedHexFields(row: HexConflictRow): (keyof Hex)[] {
+  const versions = [row.base, row.local, row.remote].filter((h): h is Hex => !!h);
+  const keys = new Set(versions.flatMap(h => Object.keys(h) as (keyof Hex)[]));
+  keys.delete('id');
+  keys.delete('progress');
+  return Array.from(keys).filter(key =>
+    new Set(versions.map(h => valueKey(h[key]))).size > 1
+  );
+}
+
+export const hasConflicts = (conflict: MapConflict) =>
+  conflict.fields.some(f => f.change === 'both') || conflict.hexes.some(h => h.change === 'both');
+
+// The side kept when the teacher hasn't picked one: whoever changed it, mine when both did
+export const defaultSide = (change: ConflictChange): MergeSide => change === 'remote' ? 'remote' : 'local';
+
+// Choices are keyed by hex id, or `map:<field>` for map-level fields
+export const fieldChoiceKey = (field: MapField) => `map:${field}`;
+
+const copyField = <K extends DirectMapField>(target: LearningMap, source: LearningMap, field: K) => {
+  target[field] = source[field];
+};
+
+// Builds the merged map on top of the remote version, so it can be saved against the remote revision
+export function mergeMaps(
+  local: LearningMap,
+  remote: LearningMap,
+  conflict: MapConflict,
+  choices: Record<string, MergeSide>
+): LearningMap {
+  const pick = (key: string, change: ConflictChange) => choices[key] || defaultSide(change);
+  const merged: LearningMap = { ...remote, meta: { ...remote.meta } };
+
+  conflict.fields.forEach(({ field, change }) => {
+    if (change === 'unchanged' || pick(fieldChoiceKey(field), change) !== 'local') return;
+    switch (field) {
+      case 'placement':
+        merged.courseId = local.courseId;
+        merged.unitId = local.unitId;
+        break;
+      case 'description':
+        merged.meta!.description = local.meta?.description;
+        break;
+      default:
+        copyField(merged, local, field);
+    }
+  });
+
+  const hexes = conflict.hexes
+    .map(row => pick(row.hexId, row.change) === 'local' ? row.local : row.remote)
+    .filter((h): h is Hex => !!h);
+
+  // Drop connections to hexes the merge didn't keep
+  const kept = new Set(hexes.map(h => h.id));
+  merged.hexes = hexes.map(h => h.connections?.some(c => !kept.has(c.targetHexId))
+    ? { ...h, connections: h.connections.filter(c => kept.has(c.targetHexId)) }
+    : h
+  );
+  return merged;
+}
@@ -0,0 +1,78 @@
+/**
+ * Drafts - Unsaved-change tracking and crash recovery for maps
+ *
+ * While a map has unsaved edits, a copy is kept in localStorage so a
+ * reload or crash doesn't lose them. Drafts are cleared on save.
+ */
+
+import { LearningMap } from '../types';
+
+const STORAGE_KEY_DRAFTS = 'learning_maps_drafts';
+
+export interface MapDraft {
+  map: LearningMap;
+  savedAt: string;
+}
+
+function getDrafts(): Record<string, MapDraft> {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_DRAFTS);
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    return {};
+  }
+}
+
+function setDrafts(drafts: Record<string, MapDraft>) {
+  try {
+    localStorage.setItem(STORAGE_KEY_DRAFTS, JSON.stringify(drafts));
+  } catch (e) {
+    console.warn('Could not store map draft', e);
+  }
+}
+
+export function saveDraft(map: LearningMap) {
+  setDrafts({ ...getDrafts(), [map.mapId]: { map, savedAt: new Date().toISOString() } });
+}
+
+export function getDraft(mapId: string): MapDraft | null {
+  return getDrafts()[mapId] || null;
+}
+
+export function clearDraft(mapId: string) {
+  const drafts = getDrafts();
+  if (!drafts[mapId]) return;
+  delete drafts[mapId];
+  setDrafts(drafts);
+}
+
+// JSON with sorted keys and empty values dropped, so equal content compares equal
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .filter(k => record[k] !== undefined && record[k] !== null && record[k] !== '')
+      .sort()
+      .map(k => [k, stableStringify(record[k])])
+      .filter(([, v]) => v !== '[]' && v !== '{}')
+      .map(([k, v]) => `${JSON.stringify(k)}:${v}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// Authored content only: save timestamps and students' progress don't make a map dirty
+function contentKey(map: LearningMap): string {
+  const { meta, hexes, ...rest } = map;
+  return stableStringify({
+    ...rest,
+    description: meta?.description,
+    hexes: hexes.map(({ progress, ...hex }) => hex),
+  });
+}
+
+export function hasUnsavedChanges(current: LearningMap | null, saved: LearningMap | null): boolean {
+  if (!current || !saved || current.mapId !== saved.mapId) return false;
+  return contentKey(current) !== contentKey(saved);
+}
@@ -0,0 +1,161 @@
+/**
+ * Map Filters - Highlighting hexes by curriculum, progress and state
+ *
+ * A filter is a list of conditions joined with AND or OR. Each condition
+ * names a field and the values it accepts; a hex meets it when it has any
+ * of them. Conditions with no values are ignored, so a half-built filter
+ * never hides the whole map.
+ */
+
+import { CurriculumConfig, FilterCondition, FilterField, Hex, HexFilter, LearningMap } from '../types';
+import { HexLockState } from './locking';
+
+export const EMPTY_FILTER: HexFilter = { combinator: 'and', conditions: [], display: 'dim' };
+
+export const FILTER_FIELD_LABELS: Record<FilterField, string> = {
+  type: 'Type',
+  sbar: 'SBAR',
+  standard: 'Standard',
+  competency: 'Competency',
+  atlSkill: 'ATL Skill',
+  ubdStage: 'UbD Stage',
+  progress: 'Progress',
+  lock: 'Lock State',
+  linked: 'Resource Link',
+  region: 'Region',
+};
+
+export interface FilterOption {
+  value: string;
+  label: string;
+  group?: string;
+  description?: string;
+}
+
+const FIXED_OPTIONS: Partial<Record<FilterField, FilterOption[]>> = {
+  type: [
+    { value: 'core', label: 'Core' },
+    { value: 'ext', label: 'Extension' },
+    { value: 'scaf', label: 'Scaffold' },
+    { value: 'student', label: 'Student' },
+    { value: 'class', label: 'Class' },
+  ],
+  sbar: [
+    { value: 'K', label: 'KU' },
+    { value: 'T', label: 'TT' },
+    { value: 'C', label: 'C' },
+  ],
+  progress: [
+    { value: 'not_started', label: 'Not Started' },
+    { value: 'in_progress', label: 'In Progress' },
+    { value: 'completed', label: 'Completed' },
+    { value: 'mastered', label: 'Mastered' },
+  ],
+  lock: [
+    { value: 'locked', label: 'Locked' },
+    { value: 'unlocked', label: 'Unlocked' },
+  ],
+  linked: [
+    { value: 'yes', label: 'Has link' },
+    { value: 'no', label: 'No link' },
+  ],
+};
+
+// Fields whose options come from the curriculum and can run long
+export const isCurriculumField = (field: FilterField) =>
+  field === 'standard' || field === 'competency' || field === 'atlSkill';
+
+const unique = (values: string[]) => Array.from(new Set(values.filter(Boolean))).sort();
+
+// Values a condition on `field` can take; curriculum fields only offer what the map uses
+export function getFilterOptions(field: FilterField, map: LearningMap, curriculum: CurriculumConfig | null): FilterOption[] {
+  if (FIXED_OPTIONS[field]) return FIXED_OPTIONS[field]!;
+
+  const cur = map.hexes.map(h => h.curriculum || {});
+  switch (field) {
+    case 'standard': {
+      const known = new Map((curriculum?.standards || []).map(s => [s.code, s]));
+      return unique(cur.flatMap(c => c.standards || [])).map(code => ({
+        value: code,
+        label: code,
+        group: known.get(code)?.framework,
+        description: known.get(code)?.description
+      }));
+    }
+    case 'competency': {
+      const known = new Map((curriculum?.competencies || []).map(c => [c.label, c]));
+      return unique(cur.flatMap(c => c.competencies || [])).map(label => ({
+        value: label,
+        label,
+        group: known.get(label)?.category,
+        description: known.get(label)?.description
+      }));
+    }
+    case 'atlSkill': {
+      const known = new Map((curriculum?.atlSkills || []).map(s => [s.label, s]));
+      return unique(cur.flatMap(c => c.atlSkills || [])).map(label => ({
+        value: label,
+        label,
+        group: known.get(label)?.cluster,
+        description: known.get(label)?.description
+      }));
+    }
+    case 'ubdStage':
+      return unique(cur.map(c => c.ubdStage || '')).map(stage => ({ value: stage, label: stage }));
+    case 'region':
+      return (map.regions || []).map(r => ({ value: r.id, label: r.title }));
+    default:
+      return [];
+  }
+}
+
+// Same domain matching HexNode has always used: KU also covers legacy "U" tags
+const hasSbar = (hex: Hex, domain: string) => (hex.curriculum?.sbarDomains || []).some(d =>
+  domain === 'K' ? d.includes('K') || d.includes('U') : d.includes(domain)
+);
+
+// Outside the student view there are no computed lock states, so the authored status is used
+const isLocked = (hex: Hex, lockState?: HexLockState) =>
+  lockState ? lockState.locked : hex.status === 'locked';
+
+export function matchesCondition(hex: Hex, condition: FilterCondition, lockState?: HexLockState): boolean {
+  const { values } = condition;
+  const cur = hex.curriculum || {};
+  const anyOf = (list?: string[]) => (list || []).some(v => values.includes(v));
+
+  switch (condition.field) {
+    case 'type': return values.includes(hex.type);
+    case 'sbar': return values.some(domain => hasSbar(hex, domain));
+    case 'standard': return anyOf(cur.standards);
+    case 'competency': return anyOf(cur.competencies);
+    case 'atlSkill': return anyOf(cur.atlSkills);
+    case 'ubdStage': return !!cur.ubdStage && values.includes(cur.ubdStage);
+    case 'progress': return values.includes(hex.progress || 'not_started');
+    case 'lock': return values.includes(isLocked(hex, lockState) ? 'locked' : 'unlocked');
+    case 'linked': return values.includes(hex.linkUrl ? 'yes' : 'no');
+    case 'region': return !!hex.regionId && values.includes(hex.regionId);
+    default: return true;
+  }
+}
+
+const activeConditions = (filter: HexFilter) => filter.conditions.filter(c => c.values.length > 0);
+
+export const isFilterActive = (filter: HexFilter) => activeConditions(filter).length > 0;
+
+export function matchesFilter(hex: Hex, filter: HexFilter, lockState?: HexLockState): boolean {
+  const conditions = activeConditions(filter);
+  if (conditions.length === 0) return true;
+  return filter.combinator === 'or'
+    ? conditions.some(c => matchesCondition(hex, c, lockState))
+    : conditions.every(c => matchesCondition(hex, c, lockState));
+}
+
+export function createCondition(field: FilterField): FilterCondition {
+  return { id: 'cond-' + Date.now() + '-' + Math.random().toString(36).slice(2, 6), field, values: [] };
+}
+
+// e.g. "Type: Core or Extension"
+export function describeCondition(condition: FilterCondition, options: FilterOption[]): string {
+  const labels = condition.values.map(v => options.find(o => o.value === v)?.label || v);
+  return `${FILTER_FIELD_LABELS[condition.field]}: ${labels.join(' or ')}`;
+}
@@ -0,0 +1,190 @@
+/**
+ * Grid Geometry - Shared hex grid math
+ *
+ * Single source of truth for where a hex sits on the offset-row grid.
+ * Used by HexNode for placement and by overlays that need to line up with it.
+ */
+
+import { Hex, HexSize } from '../types';
+
+export interface GridMetrics {
+  width: number;
+  height: number;
+  colSpacing: number;
+  rowSpacing: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const HEX_METRICS: GridMetrics = {
+  width: 110,
+  height: 100,
+  colSpacing: 88,
+  rowSpacing: 75,
+};
+
+// Padding between the grid container edge and column/row 0
+export const GRID_PADDING = 20;
+
+// Top-left corner of a hex box. Odd rows are shifted right by half a hex.
+export function getBasePosition(r: number, c: number, metrics: GridMetrics): Point {
+  // Ensure r and c are numbers to avoid NaN
+  const row = Number(r) || 0;
+  const col = Number(c) || 0;
+
+  const xOffset = (row % 2 === 0) ? 0 : metrics.width / 2;
+  const left = col * metrics.colSpacing + xOffset + GRID_PADDING;
+  const top = row * metrics.rowSpacing + GRID_PADDING;
+  return { x: left, y: top };
+}
+
+export function getHexDimensions(size: HexSize | undefined, metrics: GridMetrics) {
+  if (size === 'large') return { width: metrics.width * 1.3, height: metrics.height * 1.3 };
+  if (size === 'small') return { width: metrics.width * 0.8, height: metrics.height * 0.8 };
+  return { width: metrics.width, height: metrics.height };
+}
+
+// Center of a hex, optionally using a live top-left position (e.g. mid-drag)
+export function getHexCenter(hex: Hex, metrics: GridMetrics, topLeft?: Point): Point {
+  const pos = topLeft || getBasePosition(hex.row, hex.col, metrics);
+  const dims = getHexDimensions(hex.size, metrics);
+  return { x: pos.x + dims.width / 2, y: pos.y + dims.height / 2 };
+}
+
+// Nearest grid cell for a top-left pixel position
+export function snapToCell(x: number, y: number, metrics: GridMetrics): { row: number; col: number } {
+  const approxRow = Math.round((y - GRID_PADDING) / metrics.rowSpacing);
+  const row = Math.max(0, approxRow);
+
+  const xOffset = row % 2 !== 0 ? metrics.width / 2 : 0;
+
+  const approxCol = Math.round((x - GRID_PADDING - xOffset) / metrics.colSpacing);
+  const col = Math.max(0, approxCol);
+
+  return { row, col };
+}
+
+// Adjacent cells on the offset-row grid (odd rows sit half a hex to the right)
+export function getNeighbourCells(row: number, col: number): { row: number; col: number }[] {
+  const shift = row % 2 === 0 ? -1 : 0;
+  return [
+    { row, col: col - 1 },
+    { row, col: col + 1 },
+    { row: row - 1, col: col + shift },
+    { row: row - 1, col: col + shift + 1 },
+    { row: row + 1, col: col + shift },
+    { row: row + 1, col: col + shift + 1 },
+  ].filter(cell => cell.row >= 0 && cell.col >= 0);
+}
+
+export const cellKey = (row: number, col: number) => `${row},${col}`;
+
+// Breadth-first search outward from a cell for the closest unoccupied one
+export function findNearestFreeCell(
+  occupied: Set<string>,
+  row: number,
+  col: number
+): { row: number; col: number } {
+  const start = { row: Math.max(0, row), col: Math.max(0, col) };
+  const seen = new Set<string>([cellKey(start.row, start.col)]);
+  const queue = [start];
+
+  while (queue.length) {
+    const cell = queue.shift()!;
+    if (!occupied.has(cellKey(cell.row, cell.col))) return cell;
+    getNeighbourCells(cell.row, cell.col).forEach(n => {
+      const key = cellKey(n.row, n.col);
+      if (!seen.has(key)) {
+        seen.add(key);
+        queue.push(n);
+      }
+    });
+  }
+  return start;
+}
+
+// Horizontal position in column units, accounting for odd rows being shifted half a hex
+export const columnUnits = (row: number, col: number) => col + (row % 2 === 0 ? 0 : 0.5);
+
+/**
+ * Move a group of hexes so that `from` lands on `to`, keeping every member's
+ * on-screen offset from the others. Column shifts are corrected for members
+ * whose row parity flips. The group is nudged back onto the grid if it would
+ * fall off the top or left edge.
+ */
+export function translateCells(
+  members: { id: string; row: number; col: number }[],
+  from: { row: number; col: number },
+  to: { row: number; col: number }
+): Record<string, { row: number; col: number }> {
+  const dRow = to.row - from.row;
+  const dx = columnUnits(to.row, to.col) - columnUnits(from.row, from.col);
+
+  let moved = members.map(m => {
+    const row = m.row + dRow;
+    const col = Math.round(columnUnits(m.row, m.col) + dx - columnUnits(row, 0));
+    return { id: m.id, row, col };
+  });
+
+  // Whole-group corrections; rows shift by an even amount so parity is kept
+  const minRow = Math.min(...moved.map(m => m.row));
+  if (minRow < 0) {
+    const shift = minRow % 2 === 0 ? -minRow : -minRow + 1;
+    moved = moved.map(m => ({ ...m, row: m.row + shift }));
+  }
+  const minCol = Math.min(...moved.map(m => m.col));
+  if (minCol < 0) moved = moved.map(m => ({ ...m, col: m.col - minCol }));
+
+  const result: Record<string, { row: number; col: number }> = {};
+  moved.forEach(m => { result[m.id] = { row: m.row, col: m.col }; });
+  return result;
+}
+
+export type GridDirection = 'left' | 'right' | 'up' | 'down';
+
+/**
+ * The adjacent cell in a direction. Vertical steps alternate between the
+ * upper-left/upper-right neighbours so two presses land back in the same
+ * column. Returns null at the top or left edge.
+ */
+export function stepCell(row: number, col: number, direction: GridDirection): { row: number; col: number } | null {
+  if (direction === 'left') return col > 0 ? { row, col: col - 1 } : null;
+  if (direction === 'right') return { row, col: col + 1 };
+
+  const nextRow = direction === 'up' ? row - 1 : row + 1;
+  if (nextRow < 0) return null;
+  const units = columnUnits(row, col) - columnUnits(nextRow, 0);
+  const nextCol = row % 2 === 0 ? Math.floor(units) : Math.ceil(units);
+  return { row: nextRow, col: Math.max(0, nextCol) };
+}
+
+// Closest item in a direction: same row for left/right, nearest row above/below for up/down
+export function findNearestInDirection<T extends { row: number; col: number }>(
+  items: T[],
+  from: { row: number; col: number },
+  direction: GridDirection
+): T | null {
+  const fromX = columnUnits(from.row, from.col);
+  const candidates = items.filter(item => {
+    const x = columnUnits(item.row, item.col);
+    if (direction === 'left') return item.row === from.row && x < fromX;
+    if (direction === 'right') return item.row === from.row && x > fromX;
+    if (direction === 'up') return item.row < from.row;
+    return item.row > from.row;
+  });
+
+  let best: T | null = null;
+  let bestScore = Infinity;
+  candidates.forEach(item => {
+    // Row distance dominates so up/down never skips a closer row
+    const score = Math.abs(item.row - from.row) * 1000 + Math.abs(columnUnits(item.row, item.col) - fromX);
+    if (score < bestScore) {
+      best = item;
+      bestScore = score;
+    }
+  });
+  return best;
+}
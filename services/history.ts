@@ -0,0 +1,61 @@
+/**
+ * Edit History - Undo/redo for map editing
+ *
+ * Every edit is recorded as a command holding the map before and after.
+ * Consecutive commands with the same coalesce key (typing in one field,
+ * repeated nudges of one hex) merge into a single undo step.
+ */
+
+import { LearningMap } from '../types';
+
+export interface HistoryCommand {
+  label: string;
+  before: LearningMap;
+  after: LearningMap;
+  coalesceKey?: string;
+  at: number;
+}
+
+export interface HistoryState {
+  past: HistoryCommand[];
+  future: HistoryCommand[];
+}
+
+export const EMPTY_HISTORY: HistoryState = { past: [], future: [] };
+
+const MAX_HISTORY = 100;
+const COALESCE_WINDOW_MS = 1000;
+
+export function recordCommand(state: HistoryState, command: HistoryCommand): HistoryState {
+  const last = state.past[state.past.length - 1];
+  if (
+    last &&
+    command.coalesceKey &&
+    last.coalesceKey === command.coalesceKey &&
+    command.at - last.at < COALESCE_WINDOW_MS
+  ) {
+    const merged = { ...last, after: command.after, at: command.at };
+    return { past: [...state.past.slice(0, -1), merged], future: [] };
+  }
+  return { past: [...state.past, command].slice(-MAX_HISTORY), future: [] };
+}
+
+export function undoCommand(state: HistoryState): { state: HistoryState; map: LearningMap; label: string } | null {
+  const command = state.past[state.past.length - 1];
+  if (!command) return null;
+  return {
+    state: { past: state.past.slice(0, -1), future: [command, ...state.future] },
+    map: command.before,
+    label: command.label,
+  };
+}
+
+export function redoCommand(state: HistoryState): { state: HistoryState; map: LearningMap; label: string } | null {
+  const command = state.future[0];
+  if (!command) return null;
+  return {
+    state: { past: [...state.past, command], future: state.future.slice(1) },
+    map: command.after,
+    label: command.label,
+  };
+}
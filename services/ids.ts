@@ -0,0 +1,8 @@
+/**
+ * IDs - Generated identifiers for map content
+ *
+ * Hex ids only need to be unique within a map, but copies of hexes
+ * (paste, templates, duplicated maps) must never reuse the source's ids.
+ */
+
+export const generateHexId = () => 'hex-' + Math.random().toString(36).substr(2, 9);
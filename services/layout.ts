@@ -0,0 +1,157 @@
+/**
+ * Auto Layout - Layered placement of hexes from the connection graph
+ *
+ * Sugiyama-style: break cycles, assign each hex a layer (row) by longest
+ * path, order hexes within a layer by barycenter sweeps to reduce edge
+ * crossings, then pick columns that sit under their parents on the
+ * offset-row grid. Pinned hexes keep their cell.
+ */
+
+import { Hex } from '../types';
+import { cellKey, columnUnits } from './grid';
+
+export type LayoutResult = Record<string, { row: number; col: number }>;
+
+const SWEEPS = 6;
+
+export function computeLayeredLayout(hexes: Hex[]): LayoutResult {
+  const byId = new Map(hexes.map(h => [h.id, h]));
+  const ordered = [...hexes].sort((a, b) => a.row - b.row || a.col - b.col);
+
+  // --- Edges, with cycles broken by dropping DFS back edges ---
+  const edges: [string, string][] = [];
+  const state: Record<string, 'visiting' | 'done'> = {};
+  const visit = (id: string) => {
+    state[id] = 'visiting';
+    (byId.get(id)?.connections || []).forEach(conn => {
+      const target = conn.targetHexId;
+      if (!byId.has(target) || target === id) return;
+      if (state[target] === 'visiting') return;
+      edges.push([id, target]);
+      if (!state[target]) visit(target);
+    });
+    state[id] = 'done';
+  };
+  ordered.forEach(h => { if (!state[h.id]) visit(h.id); });
+
+  const preds: Record<string, string[]> = {};
+  const succs: Record<string, string[]> = {};
+  hexes.forEach(h => { preds[h.id] = []; succs[h.id] = []; });
+  edges.forEach(([from, to]) => {
+    if (!succs[from].includes(to)) succs[from].push(to);
+    if (!preds[to].includes(from)) preds[to].push(from);
+  });
+
+  // --- Layering by longest path (Kahn order) ---
+  const layerOf: Record<string, number> = {};
+  const indegree: Record<string, number> = {};
+  hexes.forEach(h => { indegree[h.id] = preds[h.id].length; });
+  const queue = ordered.filter(h => indegree[h.id] === 0).map(h => h.id);
+  queue.forEach(id => { layerOf[id] = 0; });
+  while (queue.length) {
+    const id = queue.shift()!;
+    succs[id].forEach(next => {
+      layerOf[next] = Math.max(layerOf[next] ?? 0, layerOf[id] + 1);
+      if (--indegree[next] === 0) queue.push(next);
+    });
+  }
+
+  const isolated = ordered.filter(h => preds[h.id].length === 0 && succs[h.id].length === 0);
+  const connected = ordered.filter(h => !isolated.includes(h));
+
+  const layers: string[][] = [];
+  connected.forEach(h => { (layers[layerOf[h.id]] ||= []).push(h.id); });
+  const compactLayers = layers.filter(Boolean);
+
+  // Unconnected hexes go in trailing rows, wrapped to the widest layer
+  const wrap = Math.max(4, ...compactLayers.map(l => l.length));
+  for (let i = 0; i < isolated.length; i += wrap) {
+    compactLayers.push(isolated.slice(i, i + wrap).map(h => h.id));
+  }
+
+  // --- Crossing reduction by barycenter sweeps ---
+  let best = compactLayers.map(l => [...l]);
+  let bestCrossings = countCrossings(best, succs);
+  let current = best.map(l => [...l]);
+
+  for (let sweep = 0; sweep < SWEEPS && bestCrossings > 0; sweep++) {
+    const down = sweep % 2 === 0;
+    const range = down
+      ? Array.from({ length: current.length - 1 }, (_, i) => i + 1)
+      : Array.from({ length: current.length - 1 }, (_, i) => current.length - 2 - i);
+
+    range.forEach(i => {
+      const ref = current[down ? i - 1 : i + 1];
+      const refIndex = new Map(ref.map((id, idx) => [id, idx]));
+      const neighbours = down ? preds : succs;
+      const bary = new Map(current[i].map((id, idx) => {
+        const positions = neighbours[id].filter(n => refIndex.has(n)).map(n => refIndex.get(n)!);
+        return [id, positions.length ? positions.reduce((a, b) => a + b, 0) / positions.length : idx];
+      }));
+      current[i] = [...current[i]].sort((a, b) => bary.get(a)! - bary.get(b)!);
+    });
+
+    const crossings = countCrossings(current, succs);
+    if (crossings < bestCrossings) {
+      bestCrossings = crossings;
+      best = current.map(l => [...l]);
+    }
+  }
+
+  // --- Column assignment ---
+  const result: LayoutResult = {};
+  const occupied = new Set<string>();
+  hexes.filter(h => h.pinned).forEach(h => {
+    result[h.id] = { row: h.row, col: h.col };
+    occupied.add(cellKey(h.row, h.col));
+  });
+
+  const widest = Math.max(0, ...best.map(l => l.length));
+  best.forEach((layer, row) => {
+    const start = (widest - layer.length) / 2;
+    let lastCol = -1;
+    layer.forEach((id, idx) => {
+      if (byId.get(id)?.pinned) return;
+
+      const parentXs = preds[id].filter(p => result[p]).map(p => columnUnits(result[p].row, result[p].col));
+      const desiredX = parentXs.length
+        ? parentXs.reduce((a, b) => a + b, 0) / parentXs.length
+        : start + idx;
+
+      let col = Math.max(lastCol + 1, Math.round(desiredX - columnUnits(row, 0)), 0);
+      while (occupied.has(cellKey(row, col))) col++;
+
+      result[id] = { row, col };
+      occupied.add(cellKey(row, col));
+      lastCol = col;
+    });
+  });
+
+  return result;
+}
+
+// Crossings between adjacent layers only; good enough to compare orderings
+function countCrossings(layers: string[][], succs: Record<string, string[]>): number {
+  let total = 0;
+  for (let i = 0; i < layers.length - 1; i++) {
+    const lowerIndex = new Map(layers[i + 1].map((id, idx) => [id, idx]));
+    const segments: [number, number][] = [];
+    layers[i].forEach((id, upper) => {
+      succs[id].forEach(t => {
+        if (lowerIndex.has(t)) segments.push([upper, lowerIndex.get(t)!]);
+      });
+    });
+    for (let a = 0; a < segments.length; a++) {
+      for (let b = a + 1; b < segments.length; b++) {
+        const [u1, l1] = segments[a];
+        const [u2, l2] = segments[b];
+        if ((u1 - u2) * (l1 - l2) < 0) total++;
+      }
+    }
+  }
+  return total;
+}
+
+export function applyLayout(hexes: Hex[], layout: LayoutResult): Hex[] {
+  return hexes.map(h => layout[h.id] ? { ...h, row: layout[h.id].row, col: layout[h.id].col } : h);
+}
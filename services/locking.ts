@@ -0,0 +1,131 @@
+/**
+ * Locking Service - Prerequisite-driven hex locks
+ *
+ * Works out each student's lock state from the map's connections and
+ * that student's progress records. Pure functions, no storage access.
+ */
+
+import { Hex, LearningMap, ConnectionType, HexConnection, HexProgress, StudentProgressRecord } from '../types';
+import { evaluateRule, formatRule, getConnectionRule, getRuleError } from './rules';
+
+export type ProgressMap = Record<string, Partial<StudentProgressRecord>>;
+
+export interface LockRequirement {
+  hexId: string;
+  label: string;
+  type: ConnectionType;
+  // Canonical text of the branch rule, if the connection has one
+  condition?: string;
+  met: boolean;
+}
+
+export interface HexLockState {
+  hexId: string;
+  locked: boolean;
+  reason: 'manual' | 'prerequisites' | null;
+  // All incoming requirements, met or not
+  requirements: LockRequirement[];
+  // Human readable summary of what unlocks the hex
+  unlockHint: string | null;
+}
+
+export function isCompleteStatus(status?: HexProgress): boolean {
+  return status === 'completed' || status === 'mastered';
+}
+
+// Student progress wins over whatever progress is stored on the hex itself
+export function getEffectiveProgress(hex: Hex, progress: ProgressMap): HexProgress | undefined {
+  return progress[hex.id]?.status || hex.progress;
+}
+
+// Incoming edges for every hex, keyed by target id
+export function getIncomingConnections(map: LearningMap): Record<string, { source: Hex; connection: HexConnection }[]> {
+  const incoming: Record<string, { source: Hex; connection: HexConnection }[]> = {};
+  map.hexes.forEach(source => {
+    (source.connections || []).forEach(conn => {
+      if (conn.targetHexId === source.id) return;
+      (incoming[conn.targetHexId] ||= []).push({ source, connection: conn });
+    });
+  });
+  return incoming;
+}
+
+// An edge is satisfied once its source is complete and its branch rule (if any) passes.
+// A rule that doesn't parse never passes, so a typo can't open a branch to everyone.
+export function isConnectionSatisfied(source: Hex, connection: HexConnection, progress: ProgressMap): boolean {
+  const status = getEffectiveProgress(source, progress);
+  if (!isCompleteStatus(status)) return false;
+  if (getRuleError(connection)) return false;
+  const rule = getConnectionRule(connection);
+  return rule ? evaluateRule(rule, { ...progress[source.id], status }) : true;
+}
+
+/**
+ * Rules:
+ * - A teacher's manual 'locked' status always wins.
+ * - A hex the student has already started stays open.
+ * - Default predecessors must ALL be complete.
+ * - Branch predecessors (conditional, remedial, extension): ANY one complete
+ *   with its branch rule passing is enough. This is what routes a student to
+ *   a remedial or extension hex based on their score.
+ * - A hex with no incoming connections is open.
+ */
+export function computeLockStates(map: LearningMap, progress: ProgressMap): Record<string, HexLockState> {
+  const incoming = getIncomingConnections(map);
+  const result: Record<string, HexLockState> = {};
+
+  map.hexes.forEach(hex => {
+    const requirements: LockRequirement[] = (incoming[hex.id] || []).map(({ source, connection }) => {
+      const rule = getConnectionRule(connection);
+      return {
+        hexId: source.id,
+        label: source.label,
+        type: connection.type,
+        condition: rule ? formatRule(rule) : getRuleError(connection) ? 'an invalid rule (ask your teacher)' : undefined,
+        met: isConnectionSatisfied(source, connection, progress),
+      };
+    });
+
+    if (hex.status === 'locked') {
+      result[hex.id] = {
+        hexId: hex.id,
+        locked: true,
+        reason: 'manual',
+        requirements,
+        unlockHint: 'Locked by your teacher',
+      };
+      return;
+    }
+
+    const ownProgress = getEffectiveProgress(hex, progress);
+    const started = !!ownProgress && ownProgress !== 'not_started';
+
+    const defaults = requirements.filter(r => r.type === 'default');
+    const branches = requirements.filter(r => r.type !== 'default');
+    const defaultsMet = defaults.every(r => r.met);
+    const branchMet = branches.length === 0 || branches.some(r => r.met);
+    const locked = !started && !(defaultsMet && branchMet);
+
+    result[hex.id] = {
+      hexId: hex.id,
+      locked,
+      reason: locked ? 'prerequisites' : null,
+      requirements,
+      unlockHint: locked ? describeUnlock(defaults, branches) : null,
+    };
+  });
+
+  return result;
+}
+
+function describeUnlock(defaults: LockRequirement[], branches: LockRequirement[]): string {
+  const parts: string[] = [];
+  const missingDefaults = defaults.filter(r => !r.met).map(r => `"${r.label}"`);
+  if (missingDefaults.length) parts.push(`Complete ${missingDefaults.join(' and ')}`);
+  if (branches.length && !branches.some(r => r.met)) {
+    const options = branches.map(r => r.condition ? `"${r.label}" with ${r.condition}` : `"${r.label}"`);
+    parts.push(options.length === 1 ? `complete ${options[0]}` : `complete one of ${options.join(', ')}`);
+  }
+  const text = parts.join(', and ');
+  return text.charAt(0).toUpperCase() + text.slice(1) + ' to unlock';
+}
@@ -0,0 +1,238 @@
+/**
+ * Outbox - Durable queue for writes that couldn't reach the backend
+ *
+ * Map saves and progress updates made while the API is unreachable are
+ * kept in localStorage and replayed in the order they were made once
+ * apiService reports connected again. Failed sends back off exponentially.
+ *
+ * Replay is idempotent: a newer write for the same map or hex replaces the
+ * queued one in place instead of adding another, an entry is only removed
+ * once the backend confirms it, and every entry carries a request id the
+ * backend can use to ignore a repeat of a write it already applied.
+ *
+ * A queued map save keeps the revision the backend last confirmed as its
+ * base. If someone else saved the map in the meantime, the save is held
+ * with their version attached instead of being sent or dropped, until the
+ * teacher resolves the conflict.
+ */
+
+import { LearningMap, HexProgress } from '../types';
+import { apiService, ApiResponse } from './api';
+import { SavePrecondition, isStale } from './conflicts';
+import { hasUnsavedChanges } from './drafts';
+import { writeWithStorageSpace } from './revisions';
+
+const STORAGE_KEY_OUTBOX = 'learning_maps_outbox';
+
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+// A write the backend keeps rejecting is dropped rather than blocking the queue forever
+const MAX_ATTEMPTS = 8;
+
+export type OutboxWrite =
+  | { kind: 'saveMap'; map: LearningMap; base?: SavePrecondition; snapshot?: boolean }
+  | { kind: 'progress'; email: string; mapId: string; hexId: string; status: HexProgress; score?: number };
+
+export type OutboxEntry = OutboxWrite & {
+  id: string;          // Request id sent to the backend
+  key: string;         // Writes with the same key replace each other
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  conflict?: LearningMap; // Newer version the save was refused against; held until resolved
+};
+
+export type HeldSave = Extract<OutboxEntry, { kind: 'saveMap' }> & { conflict: LearningMap };
+
+type OutboxListener = (pending: number) => void;
+const listeners: OutboxListener[] = [];
+
+let flushing: Promise<void> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+const writeKey = (write: OutboxWrite) =>
+  write.kind === 'saveMap' ? `map:${write.map.mapId}` : `progress:${write.email}:${write.mapId}:${write.hexId}`;
+
+const newRequestId = () => 'req-' + Date.now() + '-' + Math.random().toString(36).slice(2, 8);
+
+const backoff = (attempts: number) => Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (attempts - 1));
+
+// Next entry to send; held saves wait for the teacher instead
+const nextEntry = () => getOutbox().find(e => !e.conflict);
+
+export function getOutbox(): OutboxEntry[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_OUTBOX);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    return [];
+  }
+}
+
+function saveOutbox(entries: OutboxEntry[]) {
+  writeWithStorageSpace(() => localStorage.setItem(STORAGE_KEY_OUTBOX, JSON.stringify(entries)));
+  listeners.forEach(fn => fn(entries.length));
+}
+
+export const getPendingCount = () => getOutbox().length;
+
+export function subscribeToOutbox(listener: OutboxListener): () => void {
+  listeners.push(listener);
+  return () => {
+    const idx = listeners.indexOf(listener);
+    if (idx >= 0) listeners.splice(idx, 1);
+  };
+}
+
+// Queues a write, replacing any queued write to the same map or hex. A replaced map
+// save keeps its base (and any held conflict): the revisions saved offline in between
+// never reached the backend, so only the original base can be checked against it.
+// It is still snapshotted if any save it replaces asked for that.
+export function enqueueWrite(write: OutboxWrite) {
+  const key = writeKey(write);
+  const entries = getOutbox();
+  const entry: OutboxEntry = {
+    ...write,
+    id: newRequestId(),
+    key,
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    nextAttemptAt: 0
+  };
+  const idx = entries.findIndex(e => e.key === key);
+  if (idx >= 0) {
+    const queued = entries[idx];
+    entries[idx] = queued.kind === 'saveMap' && entry.kind === 'saveMap'
+      ? { ...entry, createdAt: queued.createdAt, base: queued.base, conflict: queued.conflict, snapshot: entry.snapshot || queued.snapshot }
+      : { ...entry, createdAt: queued.createdAt };
+  } else {
+    entries.push(entry);
+  }
+  saveOutbox(entries);
+  scheduleRetry();
+}
+
+function send(entry: OutboxEntry): Promise<ApiResponse> {
+  if (entry.kind === 'saveMap') return apiService.saveMap(entry.map, { requestId: entry.id, base: entry.base, snapshot: entry.snapshot });
+  return apiService.saveProgress(entry.mapId, entry.hexId, entry.status, entry.score, { requestId: entry.id, email: entry.email });
+}
+
+// Updates one entry by request id; an entry replaced since it was read is left alone
+function updateEntry(id: string, update: (entry: OutboxEntry) => OutboxEntry | null) {
+  const entries = getOutbox();
+  const idx = entries.findIndex(e => e.id === id);
+  if (idx < 0) return;
+  const next = update(entries[idx]);
+  if (next) entries[idx] = next; else entries.splice(idx, 1);
+  saveOutbox(entries);
+}
+
+// Maps saved offline that the backend doesn't have yet, by map id
+export function getQueuedMaps(): Map<string, LearningMap> {
+  const queued = new Map<string, LearningMap>();
+  getOutbox().forEach(entry => {
+    if (entry.kind === 'saveMap') queued.set(entry.map.mapId, entry.map);
+  });
+  return queued;
+}
+
+export function getHeldSave(mapId: string): HeldSave | null {
+  const entry = getOutbox().find(e => e.kind === 'saveMap' && e.map.mapId === mapId && e.conflict);
+  return entry ? entry as HeldSave : null;
+}
+
+// Drops a held save once the conflict is resolved; the resolution is saved on its own
+export function releaseHeldSave(mapId: string) {
+  const held = getHeldSave(mapId);
+  if (held) updateEntry(held.id, () => null);
+}
+
+// The map as the backend has it now, if it has moved on from this save's base.
+// Checked before sending so a backend without its own revision check can't be overwritten.
+async function findNewerMap(entry: OutboxEntry): Promise<LearningMap | null> {
+  if (entry.kind !== 'saveMap' || !entry.base) return null;
+  const current = await apiService.getMap(entry.map.mapId);
+  if (!current.success || !current.map) return null;
+  return isStale(current.map, entry.base) && hasUnsavedChanges(entry.map, current.map) ? current.map : null;
+}
+
+// Pushes the entry's next attempt back along the backoff curve
+function deferEntry(entry: OutboxEntry, error?: string) {
+  const attempts = entry.attempts + 1;
+  updateEntry(entry.id, e => ({ ...e, attempts, nextAttemptAt: Date.now() + backoff(attempts), lastError: error }));
+}
+
+async function replay(force: boolean) {
+  while (true) {
+    const head = nextEntry();
+    if (!head) return;
+    if (!force && head.nextAttemptAt > Date.now()) {
+      scheduleRetry();
+      return;
+    }
+
+    const newer = await findNewerMap(head);
+    if (newer) {
+      updateEntry(head.id, e => ({ ...e, conflict: newer }));
+      continue;
+    }
+
+    const response = await send(head);
+    if (response.success) {
+      updateEntry(head.id, () => null);
+      continue;
+    }
+
+    // Someone else saved the map while this edit was queued: hold it for the teacher
+    if (response.code === 409 && response.map) {
+      updateEntry(head.id, e => ({ ...e, conflict: response.map }));
+      continue;
+    }
+    if (!response.offline && head.attempts + 1 >= MAX_ATTEMPTS) {
+      console.error('Outbox: dropping write after repeated rejection:', head.key, response.error);
+      updateEntry(head.id, () => null);
+      continue;
+    }
+    deferEntry(head, response.error);
+    scheduleRetry();
+    return;
+  }
+}
+
+// Sends queued writes in order, stopping at the first one that fails.
+// `force` ignores the backoff, e.g. right after the connection comes back.
+export function flushOutbox(force = false): Promise<void> {
+  if (!apiService.isConfigured()) return Promise.resolve();
+  if (!flushing) {
+    flushing = replay(force).finally(() => { flushing = null; });
+  }
+  return flushing;
+}
+
+// When the next entry is due, replay if connected, otherwise re-check the connection
+// (which replays through the subscription below if it's back)
+function scheduleRetry() {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  const head = nextEntry();
+  if (!head || !apiService.isConfigured()) return;
+  retryTimer = setTimeout(async () => {
+    retryTimer = null;
+    if (apiService.getConnectionInfo().state === 'connected') {
+      flushOutbox();
+      return;
+    }
+    await apiService.checkStatus();
+    if (apiService.getConnectionInfo().state !== 'connected') {
+      const current = nextEntry();
+      if (current) deferEntry(current, 'Offline');
+      scheduleRetry();
+    }
+  }, Math.max(0, head.nextAttemptAt - Date.now()));
+}
+
+apiService.subscribe(info => {
+  if (info.state === 'connected') flushOutbox(true);
+});
+scheduleRetry();
@@ -0,0 +1,80 @@
+/**
+ * Recommendations - "What should I do next" for students
+ *
+ * Ranks the hexes a student can work on right now using the connection
+ * graph, lock state, hex type (core before ext) and their progress.
+ */
+
+import { Hex, LearningMap } from '../types';
+import { HexLockState, ProgressMap, getEffectiveProgress, isCompleteStatus } from './locking';
+
+export interface Recommendation {
+  hexId: string;
+  hex: Hex;
+  score: number;
+  reasons: string[];
+}
+
+const TYPE_WEIGHT: Record<string, number> = { core: 40, scaf: 35, student: 25, class: 20, ext: 10 };
+
+export function getRecommendations(
+  map: LearningMap,
+  progress: ProgressMap,
+  lockStates: Record<string, HexLockState>,
+  limit = 3
+): Recommendation[] {
+  const byId = new Map(map.hexes.map(h => [h.id, h]));
+
+  const isOpen = (hex: Hex) =>
+    !lockStates[hex.id]?.locked && !isCompleteStatus(getEffectiveProgress(hex, progress));
+
+  const coreRemaining = map.hexes.some(h => h.type === 'core' && isOpen(h));
+
+  const candidates = map.hexes.filter(isOpen).map(hex => {
+    const reasons: string[] = [];
+    let score = 0;
+
+    if (getEffectiveProgress(hex, progress) === 'in_progress') {
+      score += 100;
+      reasons.push("You've already started this");
+    }
+
+    // Branches the student was routed into by their results
+    const lock = lockStates[hex.id];
+    lock?.requirements.filter(r => r.met && r.type !== 'default').forEach(req => {
+      if (req.type === 'remedial') {
+        score += 80;
+        reasons.push(`Extra support based on your work in "${req.label}"`);
+      } else if (req.type === 'extension') {
+        score += 60;
+        reasons.push(`You've earned an extension from "${req.label}"`);
+      } else {
+        score += 50;
+        reasons.push(`Next step after "${req.label}"`);
+      }
+    });
+
+    const metDefaults = lock?.requirements.filter(r => r.met && r.type === 'default') || [];
+    if (metDefaults.length) {
+      score += 30;
+      reasons.push(`Unlocked by completing ${metDefaults.map(r => `"${r.label}"`).join(', ')}`);
+    }
+
+    score += TYPE_WEIGHT[hex.type] ?? 0;
+    if (hex.type === 'core') reasons.push('Core activity');
+    if (hex.type === 'ext' && coreRemaining) score -= 30;
+
+    const unlocks = (hex.connections || []).filter(c => byId.has(c.targetHexId)).length;
+    if (unlocks > 0) {
+      score += 5 * unlocks;
+      reasons.push(`Leads to ${unlocks} more hex${unlocks === 1 ? '' : 'es'}`);
+    }
+
+    // Earlier on the map wins ties
+    score -= hex.row * 2 + hex.col * 0.1;
+
+    return { hexId: hex.id, hex, score, reasons };
+  });
+
+  return candidates.sort((a, b) => b.score - a.score).slice(0, limit);
+}
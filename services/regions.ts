@@ -0,0 +1,76 @@
+/**
+ * Map Regions - Labelled groups of hexes
+ *
+ * A region ("Week 1", "Lab skills") is a title and colour stored on the
+ * map; hexes join it through their regionId. On the grid a region is drawn
+ * as a padded band around the cells of its members.
+ */
+
+import { Hex, LearningMap, MapRegion } from '../types';
+import { GridMetrics, Point, getHexDimensions } from './grid';
+
+export const REGION_COLORS = ['#6366f1', '#10b981', '#f59e0b', '#ec4899', '#0ea5e9', '#8b5cf6', '#ef4444', '#64748b'];
+
+export const REGION_PADDING = 12;
+
+export interface RegionBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export function createRegion(existing: MapRegion[], title?: string): MapRegion {
+  return {
+    id: 'region-' + Date.now(),
+    title: title || `Region ${existing.length + 1}`,
+    color: REGION_COLORS[existing.length % REGION_COLORS.length]
+  };
+}
+
+// Padded box around the members' current positions, or null for an empty region
+export function getRegionBounds(
+  region: MapRegion,
+  hexes: Hex[],
+  metrics: GridMetrics,
+  positionOf: (hex: Hex) => Point
+): RegionBounds | null {
+  const members = hexes.filter(h => h.regionId === region.id);
+  if (members.length === 0) return null;
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  members.forEach(hex => {
+    const pos = positionOf(hex);
+    const { width, height } = getHexDimensions(hex.size, metrics);
+    minX = Math.min(minX, pos.x);
+    minY = Math.min(minY, pos.y);
+    maxX = Math.max(maxX, pos.x + width);
+    maxY = Math.max(maxY, pos.y + height);
+  });
+
+  return {
+    x: minX - REGION_PADDING,
+    y: minY - REGION_PADDING,
+    width: maxX - minX + REGION_PADDING * 2,
+    height: maxY - minY + REGION_PADDING * 2
+  };
+}
+
+// Puts the given hexes into a region, or takes them out of any region when regionId is null
+export function assignRegion(hexes: Hex[], hexIds: string[], regionId: string | null): Hex[] {
+  const ids = new Set(hexIds);
+  return hexes.map(hex => {
+    if (!ids.has(hex.id)) return hex;
+    const { regionId: _old, ...rest } = hex;
+    return regionId ? { ...rest, regionId } : rest;
+  });
+}
+
+// Removes a region and releases its hexes
+export function removeRegion(map: LearningMap, regionId: string): LearningMap {
+  return {
+    ...map,
+    regions: (map.regions || []).filter(r => r.id !== regionId),
+    hexes: assignRegion(map.hexes, map.hexes.filter(h => h.regionId === regionId).map(h => h.id), null)
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * Map Revisions - Saved versions of a map and what changed between them
+ *
+ * Each explicit save (not autosaves) keeps a snapshot of the map, stamped
+ * with the revision, time and author from its meta. In API mode the backend
+ * keeps the log next to the map; locally it lives in localStorage, trimmed
+ * to the most recent saves of each map and to a total size, and it is the
+ * first thing given up when storage runs out. Two snapshots are compared
+ * structurally: hexes added, removed, moved or edited, connections made or
+ * broken, and map-level fields such as the UbD plan.
+ */
+
+import { Hex, LearningMap, MapRevision } from '../types';
+import { MAP_FIELD_LABELS, MapField, mapFieldValue, revisionOf, valueKey } from './conflicts';
+
+const STORAGE_KEY_REVISIONS = 'learning_maps_revisions';
+// Snapshots are whole maps, so the local log is kept short to stay inside the storage quota
+const MAX_LOCAL_REVISIONS = 25;
+// Across all maps, in characters of JSON; leaves most of the quota to maps and the outbox
+const MAX_LOG_CHARS = 1_500_000;
+
+function getLog(): Record<string, MapRevision[]> {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_REVISIONS);
+    return stored ? JSON.parse(stored) : {};
+  } catch (e) {
+    return {};
+  }
+}
+
+// Removes the oldest revision of any map; false once the log is empty
+function dropOldest(log: Record<string, MapRevision[]>): boolean {
+  const lastOf = (mapId: string) => log[mapId][log[mapId].length - 1];
+  const oldest = Object.keys(log)
+    .filter(mapId => log[mapId].length > 0)
+    .reduce<string | null>((a, b) => !a || lastOf(b).savedAt < lastOf(a).savedAt ? b : a, null);
+  if (!oldest) return false;
+  log[oldest].pop();
+  if (log[oldest].length === 0) delete log[oldest];
+  return true;
+}
+
+const isQuotaError = (e: unknown) =>
+  e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// Within the size cap, and smaller still if storage is full
+function setLog(log: Record<string, MapRevision[]>) {
+  let json = JSON.stringify(log);
+  while (json.length > MAX_LOG_CHARS && dropOldest(log)) json = JSON.stringify(log);
+  while (true) {
+    try {
+      localStorage.setItem(STORAGE_KEY_REVISIONS, json);
+      return;
+    } catch (e) {
+      if (!isQuotaError(e) || !dropOldest(log)) {
+        console.warn('Could not store map revision', e);
+        return;
+      }
+      json = JSON.stringify(log);
+    }
+  }
+}
+
+// Runs a localStorage write, giving up old local revisions until it fits. Maps and
+// queued writes matter more than history; if it still doesn't fit, the error is rethrown.
+export function writeWithStorageSpace(write: () => void) {
+  while (true) {
+    try {
+      write();
+      return;
+    } catch (e) {
+      const log = getLog();
+      if (!isQuotaError(e) || !dropOldest(log)) throw e;
+      // A smaller log, or none at all once it is down to nothing
+      if (Object.keys(log).length) setLog(log); else localStorage.removeItem(STORAGE_KEY_REVISIONS);
+    }
+  }
+}
+
+export function revisionFromMap(map: LearningMap): MapRevision {
+  return {
+    mapId: map.mapId,
+    revision: revisionOf(map),
+    savedAt: map.meta?.updatedAt || new Date().toISOString(),
+    savedBy: map.meta?.updatedBy,
+    map
+  };
+}
+
+export function recordLocalRevision(map: LearningMap) {
+  const log = getLog();
+  const entry = revisionFromMap(map);
+  const existing = (log[map.mapId] || []).filter(r => r.savedAt !== entry.savedAt);
+  log[map.mapId] = [entry, ...existing].slice(0, MAX_LOCAL_REVISIONS);
+  setLog(log);
+}
+
+// Newest first
+export function getLocalRevisions(mapId: string): MapRevision[] {
+  return getLog()[mapId] || [];
+}
+
+// ---- Structural diff ----
+
+export interface HexMove {
+  hex: Hex;
+  from: { row: number; col: number };
+}
+
+export interface HexEdit {
+  hex: Hex;
+  fields: (keyof Hex)[];
+}
+
+export interface ConnectionChange {
+  from: Hex;
+  to: Hex | null; // null when the target isn't on the map
+  type: string;
+  change: 'added' | 'removed' | 'changed';
+}
+
+type UbDField = keyof NonNullable<LearningMap['ubdData']>;
+
+export interface RevisionDiff {
+  added: Hex[];
+  removed: Hex[];
+  moved: HexMove[];
+  edited: HexEdit[];
+  connections: ConnectionChange[];
+  ubdFields: UbDField[];
+  mapFields: MapField[];
+}
+
+// Same names as the UbD planner
+export const UBD_FIELD_LABELS: Record<UbDField, string> = {
+  bigIdea: 'Big Idea',
+  essentialQuestions: 'Essential Questions',
+  stage1_understandings: 'Understandings',
+  stage1_knowledge_skills: 'Key Knowledge & Skills',
+  stage2_evidence: 'Performance Tasks',
+  assessment: 'Other Evidence / Checks',
+  stage3_plan: 'Learning Events & Sequencing',
+  udl_notes: 'UDL & Differentiation',
+};
+
+// Diffed on their own or not authored content
+const IGNORED_HEX_FIELDS = new Set<string>(['id', 'row', 'col', 'connections', 'progress']);
+
+function editedFields(before: Hex, after: Hex): (keyof Hex)[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)] as (keyof Hex)[]);
+  return Array.from(keys)
+    .filter(key => !IGNORED_HEX_FIELDS.has(key))
+    .filter(key => valueKey(before[key]) !== valueKey(after[key]));
+}
+
+function connectionChanges(before: Map<string, Hex>, after: Map<string, Hex>): ConnectionChange[] {
+  const edges = (hexes: Map<string, Hex>) => {
+    const result = new Map<string, { from: Hex; targetHexId: string; type: string; key: string }>();
+    hexes.forEach(hex => (hex.connections || []).forEach(c => {
+      result.set(`${hex.id}>${c.targetHexId}`, { from: hex, targetHexId: c.targetHexId, type: c.type, key: valueKey(c) });
+    }));
+    return result;
+  };
+  const beforeEdges = edges(before);
+  const afterEdges = edges(after);
+  const target = (id: string) => after.get(id) || before.get(id) || null;
+
+  const changes: ConnectionChange[] = [];
+  afterEdges.forEach((edge, id) => {
+    const old = beforeEdges.get(id);
+    if (!old) changes.push({ from: edge.from, to: target(edge.targetHexId), type: edge.type, change: 'added' });
+    else if (old.key !== edge.key) changes.push({ from: edge.from, to: target(edge.targetHexId), type: edge.type, change: 'changed' });
+  });
+  beforeEdges.forEach((edge, id) => {
+    if (!afterEdges.has(id)) changes.push({ from: edge.from, to: target(edge.targetHexId), type: edge.type, change: 'removed' });
+  });
+  return changes;
+}
+
+// What changed going from `before` to `after`
+export function diffRevisions(before: LearningMap | null, after: LearningMap): RevisionDiff {
+  const beforeHexes = new Map((before?.hexes || []).map(h => [h.id, h]));
+  const afterHexes = new Map(after.hexes.map(h => [h.id, h]));
+
+  const diff: RevisionDiff = { added: [], removed: [], moved: [], edited: [], connections: [], ubdFields: [], mapFields: [] };
+  afterHexes.forEach((hex, id) => {
+    const old = beforeHexes.get(id);
+    if (!old) {
+      diff.added.push(hex);
+      return;
+    }
+    if (old.row !== hex.row || old.col !== hex.col) diff.moved.push({ hex, from: { row: old.row, col: old.col } });
+    const fields = editedFields(old, hex);
+    if (fields.length) diff.edited.push({ hex, fields });
+  });
+  beforeHexes.forEach((hex, id) => {
+    if (!afterHexes.has(id)) diff.removed.push(hex);
+  });
+
+  diff.connections = connectionChanges(beforeHexes, afterHexes);
+
+  const beforeUbd = before?.ubdData || {};
+  const afterUbd = after.ubdData || {};
+  diff.ubdFields = (Object.keys(UBD_FIELD_LABELS) as UbDField[])
+    .filter(field => valueKey(beforeUbd[field]) !== valueKey(afterUbd[field]));
+
+  diff.mapFields = (Object.keys(MAP_FIELD_LABELS) as MapField[])
+    .filter(field => field !== 'ubdData')
+    .filter(field => valueKey(mapFieldValue(before, field)) !== valueKey(mapFieldValue(after, field)));
+
+  return diff;
+}
+
+export const countChanges = (diff: RevisionDiff) =>
+  diff.added.length + diff.removed.length + diff.moved.length + diff.edited.length +
+  diff.connections.length + diff.ubdFields.length + diff.mapFields.length;
@@ -0,0 +1,238 @@
+/**
+ * Branch Rules - Typed conditions for branching connections
+ *
+ * Conditional, remedial and extension connections carry a rule written as
+ * text in the connection label, e.g. "score < 70%" or
+ * "score >= 80 AND status = mastered". This module parses that text into a
+ * BranchRule and evaluates it against the source hex's progress record.
+ *
+ * Scores are percentages (0-100).
+ */
+
+import { BranchRule, ConnectionType, HexConnection, HexProgress, ScoreOperator, StudentProgressRecord } from '../types';
+
+export type RuleParseResult =
+  | { ok: true; rule: BranchRule | null }
+  | { ok: false; error: string; position: number };
+
+const SCORE_OPERATORS: ScoreOperator[] = ['<=', '>=', '<', '>', '='];
+const PROGRESS_VALUES: HexProgress[] = ['not_started', 'in_progress', 'completed', 'mastered'];
+
+// Only branching connections are rule-driven; default labels stay free text
+export function isRuleConnection(type: ConnectionType): boolean {
+  return type !== 'default';
+}
+
+// ============================================================
+// TOKENIZER
+// ============================================================
+
+type TokenKind = 'word' | 'number' | 'op' | 'lparen' | 'rparen' | 'percent' | 'end';
+
+interface Token {
+  kind: TokenKind;
+  value: string;
+  position: number;
+}
+
+class RuleSyntaxError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+  }
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+    if (/\s/.test(ch)) { i++; continue; }
+
+    if (ch === '(') { tokens.push({ kind: 'lparen', value: ch, position: i++ }); continue; }
+    if (ch === ')') { tokens.push({ kind: 'rparen', value: ch, position: i++ }); continue; }
+    if (ch === '%') { tokens.push({ kind: 'percent', value: ch, position: i++ }); continue; }
+
+    const two = text.slice(i, i + 2);
+    if (two === '&&' || two === '||') {
+      tokens.push({ kind: 'word', value: two === '&&' ? 'and' : 'or', position: i });
+      i += 2;
+      continue;
+    }
+    if (two === '<=' || two === '>=' || two === '==') {
+      tokens.push({ kind: 'op', value: two === '==' ? '=' : two, position: i });
+      i += 2;
+      continue;
+    }
+    if (ch === '<' || ch === '>' || ch === '=') {
+      tokens.push({ kind: 'op', value: ch, position: i++ });
+      continue;
+    }
+
+    const num = /^\d+(\.\d+)?/.exec(text.slice(i));
+    if (num) {
+      tokens.push({ kind: 'number', value: num[0], position: i });
+      i += num[0].length;
+      continue;
+    }
+
+    const word = /^[a-zA-Z_][a-zA-Z_-]*/.exec(text.slice(i));
+    if (word) {
+      tokens.push({ kind: 'word', value: word[0].toLowerCase().replace(/-/g, '_'), position: i });
+      i += word[0].length;
+      continue;
+    }
+
+    throw new RuleSyntaxError(`Unexpected character "${ch}"`, i);
+  }
+
+  tokens.push({ kind: 'end', value: '', position: text.length });
+  return tokens;
+}
+
+// ============================================================
+// PARSER
+// ============================================================
+
+// Grammar:
+//   expr       := andExpr ('or' andExpr)*
+//   andExpr    := term ('and' term)*
+//   term       := '(' expr ')' | comparison
+//   comparison := 'score' op number '%'?
+//               | ('status' | 'progress') ('=' | 'is') progressValue
+function parseTokens(tokens: Token[]): BranchRule {
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const next = () => tokens[pos++];
+  const isWord = (value: string) => peek().kind === 'word' && peek().value === value;
+
+  const parseExpr = (): BranchRule => {
+    const rules = [parseAnd()];
+    while (isWord('or')) {
+      next();
+      rules.push(parseAnd());
+    }
+    return rules.length === 1 ? rules[0] : { kind: 'or', rules };
+  };
+
+  const parseAnd = (): BranchRule => {
+    const rules = [parseTerm()];
+    while (isWord('and')) {
+      next();
+      rules.push(parseTerm());
+    }
+    return rules.length === 1 ? rules[0] : { kind: 'and', rules };
+  };
+
+  const parseTerm = (): BranchRule => {
+    const tok = peek();
+    if (tok.kind === 'lparen') {
+      next();
+      const inner = parseExpr();
+      if (peek().kind !== 'rparen') throw new RuleSyntaxError('Missing closing ")"', peek().position);
+      next();
+      return inner;
+    }
+    if (tok.kind === 'word' && tok.value === 'score') {
+      next();
+      const op = next();
+      if (op.kind !== 'op' || !SCORE_OPERATORS.includes(op.value as ScoreOperator)) {
+        throw new RuleSyntaxError('Expected a comparison (<, <=, >, >=, =) after "score"', op.position);
+      }
+      const num = next();
+      if (num.kind !== 'number') throw new RuleSyntaxError('Expected a number', num.position);
+      const value = parseFloat(num.value);
+      if (value < 0 || value > 100) throw new RuleSyntaxError('Score must be between 0 and 100', num.position);
+      if (peek().kind === 'percent') next();
+      return { kind: 'score', op: op.value as ScoreOperator, value };
+    }
+    if (tok.kind === 'word' && (tok.value === 'status' || tok.value === 'progress')) {
+      next();
+      const op = next();
+      if (!((op.kind === 'op' && op.value === '=') || (op.kind === 'word' && op.value === 'is'))) {
+        throw new RuleSyntaxError(`Expected "=" or "is" after "${tok.value}"`, op.position);
+      }
+      const val = next();
+      if (val.kind !== 'word' || !PROGRESS_VALUES.includes(val.value as HexProgress)) {
+        throw new RuleSyntaxError(`Expected one of ${PROGRESS_VALUES.join(', ')}`, val.position);
+      }
+      return { kind: 'progress', status: val.value as HexProgress };
+    }
+    if (tok.kind === 'end') throw new RuleSyntaxError('Rule is incomplete', tok.position);
+    throw new RuleSyntaxError(`Expected "score", "status" or "(" but found "${tok.value}"`, tok.position);
+  };
+
+  const rule = parseExpr();
+  if (peek().kind !== 'end') {
+    throw new RuleSyntaxError(`Unexpected "${peek().value}"`, peek().position);
+  }
+  return rule;
+}
+
+export function parseRule(text: string | undefined): RuleParseResult {
+  if (!text || !text.trim()) return { ok: true, rule: null };
+  try {
+    return { ok: true, rule: parseTokens(tokenize(text)) };
+  } catch (e) {
+    if (e instanceof RuleSyntaxError) return { ok: false, error: e.message, position: e.position };
+    throw e;
+  }
+}
+
+// ============================================================
+// FORMATTING
+// ============================================================
+
+export function formatRule(rule: BranchRule, nested = false): string {
+  switch (rule.kind) {
+    case 'score': return `score ${rule.op} ${rule.value}%`;
+    case 'progress': return `status = ${rule.status}`;
+    case 'and':
+    case 'or': {
+      const text = rule.rules.map(r => formatRule(r, true)).join(rule.kind === 'and' ? ' AND ' : ' OR ');
+      return nested ? `(${text})` : text;
+    }
+  }
+}
+
+// ============================================================
+// EVALUATION
+// ============================================================
+
+export function evaluateRule(rule: BranchRule, record: Partial<StudentProgressRecord> | undefined): boolean {
+  switch (rule.kind) {
+    case 'score': {
+      const score = record?.score;
+      if (typeof score !== 'number' || isNaN(score)) return false;
+      switch (rule.op) {
+        case '<': return score < rule.value;
+        case '<=': return score <= rule.value;
+        case '>': return score > rule.value;
+        case '>=': return score >= rule.value;
+        case '=': return score === rule.value;
+      }
+      return false;
+    }
+    case 'progress':
+      return (record?.status || 'not_started') === rule.status;
+    case 'and':
+      return rule.rules.every(r => evaluateRule(r, record));
+    case 'or':
+      return rule.rules.some(r => evaluateRule(r, record));
+  }
+}
+
+// Typed rule if present, otherwise parse the label (maps saved before rules existed)
+export function getConnectionRule(conn: HexConnection): BranchRule | null {
+  if (!isRuleConnection(conn.type)) return null;
+  if (conn.rule) return conn.rule;
+  const parsed = parseRule(conn.label);
+  return parsed.ok ? parsed.rule : null;
+}
+
+// Parse error for a branch label that isn't a valid rule, or null if it's fine
+export function getRuleError(conn: HexConnection): string | null {
+  if (!isRuleConnection(conn.type) || conn.rule) return null;
+  const parsed = parseRule(conn.label);
+  return parsed.ok === false ? parsed.error : null;
+}
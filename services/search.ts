@@ -0,0 +1,98 @@
+/**
+ * Map Search - Finding hexes by text
+ *
+ * Each word of the query has to match somewhere on the hex: label, id,
+ * curriculum tags or the description and instructions. Label hits rank
+ * above id and tag hits, which rank above hits in the body text. The
+ * current query is mirrored into the page URL (?q=) so a search can be
+ * shared or survive a reload.
+ */
+
+import { Hex } from '../types';
+
+export type SearchField = 'label' | 'id' | 'tag' | 'text';
+
+export interface SearchResult {
+  hex: Hex;
+  score: number;
+  field: SearchField; // Where the best hit was, shown next to the result
+  detail?: string;    // The matched tag or a snippet of the text
+}
+
+export const SEARCH_PARAM = 'q';
+const SNIPPET_RADIUS = 30;
+
+const tagsOf = (hex: Hex): string[] => {
+  const c = hex.curriculum || {};
+  return [
+    ...(c.sbarDomains || []),
+    ...(c.standards || []),
+    ...(c.competencies || []),
+    ...(c.atlSkills || []),
+    ...(c.tags || []),
+    ...(c.ubdTags || []),
+    c.ubdStage || ''
+  ].filter(Boolean);
+};
+
+const snippet = (text: string, index: number, length: number) => {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  return (start > 0 ? '…' : '') + text.slice(start, end).replace(/\s+/g, ' ') + (end < text.length ? '…' : '');
+};
+
+// Best hit for one query word on one hex, or null if the word isn't found
+function scoreTerm(hex: Hex, term: string): Omit<SearchResult, 'hex'> | null {
+  const label = hex.label.toLowerCase();
+  if (label === term) return { score: 100, field: 'label' };
+  if (label.startsWith(term)) return { score: 80, field: 'label' };
+  if (label.split(/\s+/).some(word => word.startsWith(term))) return { score: 60, field: 'label' };
+  if (label.includes(term)) return { score: 50, field: 'label' };
+
+  const id = hex.id.toLowerCase();
+  if (id === term) return { score: 70, field: 'id', detail: hex.id };
+
+  const tags = tagsOf(hex);
+  const exactTag = tags.find(t => t.toLowerCase() === term);
+  if (exactTag) return { score: 40, field: 'tag', detail: exactTag };
+  const partialTag = tags.find(t => t.toLowerCase().includes(term));
+  if (partialTag) return { score: 25, field: 'tag', detail: partialTag };
+
+  if (id.includes(term)) return { score: 20, field: 'id', detail: hex.id };
+
+  for (const text of [hex.description, hex.instructions]) {
+    const index = (text || '').toLowerCase().indexOf(term);
+    if (index >= 0) return { score: 15, field: 'text', detail: snippet(text!, index, term.length) };
+  }
+  return null;
+}
+
+export function searchHexes(hexes: Hex[], query: string, limit = 20): SearchResult[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return [];
+
+  const results: SearchResult[] = [];
+  hexes.forEach(hex => {
+    const hits = terms.map(term => scoreTerm(hex, term));
+    if (hits.some(hit => !hit)) return;
+    // The strongest hit decides what the result shows
+    const best = hits.reduce((a, b) => b!.score > a!.score ? b : a)!;
+    results.push({ hex, ...best, score: hits.reduce((sum, hit) => sum + hit!.score, 0) });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score || a.hex.label.localeCompare(b.hex.label))
+    .slice(0, limit);
+}
+
+export function getSearchFromUrl(): string {
+  return new URLSearchParams(window.location.search).get(SEARCH_PARAM) || '';
+}
+
+// replaceState, so typing doesn't fill the back button history
+export function setSearchInUrl(query: string) {
+  const url = new URL(window.location.href);
+  if (query) url.searchParams.set(SEARCH_PARAM, query);
+  else url.searchParams.delete(SEARCH_PARAM);
+  window.history.replaceState(window.history.state, '', url.toString());
+}
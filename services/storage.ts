@@ -6,9 +6,14 @@
 
 import { 
   LearningMap, ClassGroup, Hex, HexTemplate, CurriculumConfig, 
-  StudentProgressRecord, HexProgress, DevTask, User, Course, Unit 
+  StudentProgressRecord, HexProgress, DevTask, User, Course, Unit, MapRegion, MapRevision 
 } from '../types';
 import { apiService } from './api';
+import { enqueueWrite, getPendingCount, getOutbox, getQueuedMaps, getHeldSave, releaseHeldSave } from './outbox';
+import { MapConflictError, SavePrecondition, isStale, revisionOf } from './conflicts';
+import { hasUnsavedChanges } from './drafts';
+import { recordLocalRevision, getLocalRevisions, writeWithStorageSpace } from './revisions';
+import { generateHexId } from './ids';
 
 // Storage Mode
 export type StorageMode = 'mock' | 'api';
@@ -17,6 +22,7 @@ const STORAGE_KEY_MODE = 'learning_map_storage_mode';
 const STORAGE_KEY_MAPS = 'learning_maps_local';
 const STORAGE_KEY_PROGRESS = 'learning_maps_progress';
 const STORAGE_KEY_TASKS = 'learning_maps_tasks';
+const STORAGE_KEY_TEMPLATES = 'learning_maps_templates';
 
 // Mode change listeners
 type ModeChangeListener = (mode: StorageMode) => void;
@@ -52,19 +58,37 @@ function normalizeMap(map: LearningMap): LearningMap {
   const m = JSON.parse(JSON.stringify(map));
   if (!Array.isArray(m.hexes)) m.hexes = [];
   
+  if (!Array.isArray(m.regions)) m.regions = [];
+  const regionIds = new Set(m.regions.map((r: MapRegion) => r.id));
+
   m.hexes.forEach((hex: Hex) => {
+    if (hex.regionId && !regionIds.has(hex.regionId)) delete hex.regionId;
     if (!hex.curriculum) hex.curriculum = {};
     const c = hex.curriculum;
     if (!Array.isArray(c.competencies)) c.competencies = [];
     if (!Array.isArray(c.atlSkills)) c.atlSkills = [];
     if (!Array.isArray(c.standards)) c.standards = [];
     if (!Array.isArray(c.sbarDomains)) c.sbarDomains = [];
+
+    if (!Array.isArray(hex.resources)) hex.resources = [];
+    hex.resources = hex.resources.filter(r => r && typeof r === 'object');
+    if (hex.estimatedMinutes !== undefined) {
+      const minutes = Number(hex.estimatedMinutes);
+      hex.estimatedMinutes = Number.isFinite(minutes) && minutes > 0 ? minutes : undefined;
+    }
   });
   
   if (!m.meta) m.meta = {};
   return m;
 }
 
+// Refuses a save when someone else saved since `base`, unless they saved the same content
+function assertNotStale(map: LearningMap, stored: LearningMap, base: SavePrecondition) {
+  if (isStale(stored, base) && hasUnsavedChanges(map, stored)) {
+    throw new MapConflictError(stored);
+  }
+}
+
 // Local storage helpers
 function getLocalMaps(): LearningMap[] {
   try {
@@ -76,7 +100,31 @@ function getLocalMaps(): LearningMap[] {
 }
 
 function saveLocalMaps(maps: LearningMap[]) {
-  localStorage.setItem(STORAGE_KEY_MAPS, JSON.stringify(maps));
+  writeWithStorageSpace(() => localStorage.setItem(STORAGE_KEY_MAPS, JSON.stringify(maps)));
+}
+
+function saveLocalMap(map: LearningMap) {
+  const maps = getLocalMaps();
+  const idx = maps.findIndex(m => m.mapId === map.mapId);
+  if (idx >= 0) maps[idx] = map; else maps.push(map);
+  saveLocalMaps(maps);
+}
+
+function saveLocalProgress(record: StudentProgressRecord) {
+  const stored = localStorage.getItem(STORAGE_KEY_PROGRESS);
+  const progress: StudentProgressRecord[] = stored ? JSON.parse(stored) : [];
+  const filtered = progress.filter(p => !(p.email === record.email && p.mapId === record.mapId && p.hexId === record.hexId));
+  filtered.push(record);
+  localStorage.setItem(STORAGE_KEY_PROGRESS, JSON.stringify(filtered));
+}
+
+function getLocalTemplates(): HexTemplate[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY_TEMPLATES);
+    return stored ? JSON.parse(stored) : [];
+  } catch (e) {
+    return [];
+  }
 }
 
 // Analytics for Dashboard
@@ -130,6 +178,21 @@ export function computeAnalytics(map: LearningMap) {
   };
 }
 
+export type MapAnalytics = ReturnType<typeof computeAnalytics>;
+
+// Analytics per region; hexes outside every region are grouped under `region: null`
+export function computeRegionAnalytics(map: LearningMap): { region: MapRegion | null; analytics: MapAnalytics }[] {
+  const regions = map.regions || [];
+  const known = new Set(regions.map(r => r.id));
+  const groups = regions.map(region => ({
+    region,
+    analytics: computeAnalytics({ ...map, hexes: map.hexes.filter(h => h.regionId === region.id) })
+  }));
+  const ungrouped = map.hexes.filter(h => !h.regionId || !known.has(h.regionId));
+  if (ungrouped.length) groups.push({ region: null, analytics: computeAnalytics({ ...map, hexes: ungrouped }) });
+  return groups;
+}
+
 // Main Storage Service
 export const storageService = {
   
@@ -139,7 +202,12 @@ export const storageService = {
       try {
         const response = await apiService.getMaps();
         if (response.success && response.maps) {
-          return response.maps.map(normalizeMap);
+          // Saves still waiting in the outbox are newer than what the backend has
+          const queued = getQueuedMaps();
+          const maps = response.maps.map((m: LearningMap) => normalizeMap(queued.get(m.mapId) || m));
+          const known = new Set(maps.map(m => m.mapId));
+          queued.forEach((map, mapId) => { if (!known.has(mapId)) maps.push(normalizeMap(map)); });
+          return maps;
         }
         console.warn('API getMaps failed:', response.error);
       } catch (e) {
@@ -155,6 +223,8 @@ export const storageService = {
 
   getMapById: async (mapId: string): Promise<LearningMap | undefined> => {
     if (useApi()) {
+      const queued = getQueuedMaps().get(mapId);
+      if (queued) return normalizeMap(queued);
       try {
         const response = await apiService.getMap(mapId);
         if (response.success && response.map) {
@@ -165,84 +235,194 @@ export const storageService = {
     return getLocalMaps().find(m => m.mapId === mapId);
   },
 
-  saveMap: async (map: LearningMap): Promise<LearningMap> => {
+  // `base` is the saved version the edit started from. When given, a newer save by
+  // someone else is not overwritten: a MapConflictError with their version is thrown.
+  // `author` is recorded as meta.updatedBy and shows in the map's revision history.
+  // Only saves made with `snapshot` are kept in that history, so autosaves don't crowd it.
+  saveMap: async (
+    map: LearningMap,
+    options: { base?: SavePrecondition; author?: string; snapshot?: boolean } = {}
+  ): Promise<LearningMap> => {
+    const { base, author, snapshot } = options;
     const safeMap = normalizeMap(map);
     if (!safeMap.mapId) safeMap.mapId = 'map-' + Date.now();
     if (!safeMap.meta) safeMap.meta = {};
     safeMap.meta.updatedAt = new Date().toISOString();
+    if (author) safeMap.meta.updatedBy = author;
+    safeMap.meta.revision = (base ? base.revision : revisionOf(map)) + 1;
 
     if (useApi()) {
-      try {
-        const response = await apiService.saveMap(safeMap);
+      // An offline save of this map was refused as stale; it has to be resolved first
+      const held = await storageService.getHeldConflict(safeMap.mapId);
+      if (held) throw new MapConflictError(held.remote, held.base);
+
+      // Writes already waiting in the outbox go first, so this one queues behind them
+      if (getPendingCount() === 0) {
+        if (base) {
+          const current = await apiService.getMap(safeMap.mapId);
+          if (current.success && current.map) assertNotStale(safeMap, normalizeMap(current.map), base);
+        }
+        const response = await apiService.saveMap(safeMap, { base, snapshot });
         if (response.success && response.map) {
           return normalizeMap(response.map);
         }
-        throw new Error(response.error || 'Failed to save');
-      } catch (e) {
-        console.error('API saveMap error:', e);
-        throw e;
+        // The backend's own check caught a save that landed after the one above
+        if (response.code === 409 && response.map) {
+          throw new MapConflictError(normalizeMap(response.map));
+        }
+        if (!response.offline) {
+          console.error('API saveMap error:', response.error);
+          throw new Error(response.error || 'Failed to save');
+        }
       }
+      // Offline: keep a local copy and sync when the connection is back
+      enqueueWrite({ kind: 'saveMap', map: safeMap, base, snapshot });
+      saveLocalMap(safeMap);
+      if (snapshot) recordLocalRevision(safeMap);
+      return safeMap;
     }
 
-    // Local fallback
-    const maps = getLocalMaps();
-    const idx = maps.findIndex(m => m.mapId === safeMap.mapId);
-    if (idx >= 0) maps[idx] = safeMap; else maps.push(safeMap);
-    saveLocalMaps(maps);
+    // Local fallback; another tab may have saved the same map
+    const stored = getLocalMaps().find(m => m.mapId === safeMap.mapId);
+    if (base && stored) assertNotStale(safeMap, normalizeMap(stored), base);
+    saveLocalMap(safeMap);
+    if (snapshot) recordLocalRevision(safeMap);
     return safeMap;
   },
 
+  // A save queued offline that the backend refused because someone else saved first.
+  // `base` is the version it started from, if the revision log still has it.
+  getHeldConflict: async (mapId: string): Promise<{ local: LearningMap; remote: LearningMap; base: LearningMap | null } | null> => {
+    const held = getHeldSave(mapId);
+    if (!held) return null;
+    const revisions = held.base ? await storageService.getMapRevisions(mapId) : [];
+    const base = revisions.find(r => !isStale(r.map, held.base!));
+    return { local: normalizeMap(held.map), remote: normalizeMap(held.conflict), base: base ? base.map : null };
+  },
+
+  // Called once a held conflict is resolved; the resolution is saved as a new write
+  releaseHeldSave: (mapId: string) => {
+    releaseHeldSave(mapId);
+  },
+
   createMap: async (title: string): Promise<LearningMap> => {
     return storageService.saveMap({
       mapId: 'map-' + Date.now(),
       title,
       hexes: [],
       meta: { createdAt: new Date().toISOString() }
-    });
+    }, { snapshot: true });
   },
 
   duplicateMap: async (sourceId: string, newTitle: string): Promise<LearningMap | undefined> => {
     const source = await storageService.getMapById(sourceId);
     if (!source) return undefined;
 
+    // New hex ids, with connections following them
+    const idMap = new Map(source.hexes.map(h => [h.id, generateHexId()]));
+
     return storageService.saveMap({
       ...source,
       mapId: 'map-' + Date.now(),
       title: newTitle,
-      hexes: source.hexes.map(h => ({ ...h, id: 'hex-' + Math.random().toString(36).substr(2, 9) })),
-      meta: { ...source.meta, createdAt: new Date().toISOString(), basedOnMapId: source.mapId }
-    });
+      hexes: source.hexes.map(h => ({
+        ...h,
+        id: idMap.get(h.id)!,
+        connections: h.connections
+          ?.filter(c => idMap.has(c.targetHexId))
+          .map(c => ({ ...c, targetHexId: idMap.get(c.targetHexId)! }))
+      })),
+      meta: { ...source.meta, createdAt: new Date().toISOString(), basedOnMapId: source.mapId, revision: undefined }
+    }, { snapshot: true });
   },
 
-  // PROGRESS
-  updateStudentProgress: async (mapId: string, hexId: string, status: HexProgress, score?: number) => {
+  // Saved versions of a map, newest first. Saves made offline in API mode are only
+  // in the local log until the backend has them.
+  getMapRevisions: async (mapId: string): Promise<MapRevision[]> => {
     if (useApi()) {
       try {
-        const response = await apiService.saveProgress(mapId, hexId, status, score);
+        const response = await apiService.getMapRevisions(mapId);
+        if (response.success && Array.isArray(response.revisions)) {
+          return response.revisions.map((r: MapRevision) => ({ ...r, map: normalizeMap(r.map) }));
+        }
+        console.warn('API getMapRevisions failed:', response.error);
+      } catch (e) {
+        console.error('API getMapRevisions exception:', e);
+      }
+    }
+    return getLocalRevisions(mapId);
+  },
+
+  // New map starting from a saved revision. Hex ids are kept so connections stay intact;
+  // progress is stored per map, so the branch starts with none.
+  branchMap: async (revision: MapRevision, newTitle: string, author?: string): Promise<LearningMap> => {
+    const source = revision.map;
+    return storageService.saveMap({
+      ...source,
+      mapId: 'map-' + Date.now(),
+      title: newTitle,
+      meta: {
+        ...source.meta,
+        createdAt: new Date().toISOString(),
+        basedOnMapId: source.mapId,
+        basedOnRevision: revision.revision,
+        revision: undefined,
+        updatedBy: undefined
+      }
+    }, { author, snapshot: true });
+  },
+
+  // PROGRESS
+  // `queued` means the API was unreachable and the update will sync from the outbox
+  updateStudentProgress: async (
+    email: string,
+    mapId: string,
+    hexId: string,
+    status: HexProgress,
+    score?: number
+  ): Promise<{ ok: boolean; queued?: boolean; error?: string }> => {
+    const record: StudentProgressRecord = { email, mapId, hexId, status, score, completedAt: new Date().toISOString() };
+
+    if (useApi()) {
+      if (getPendingCount() === 0) {
+        const response = await apiService.saveProgress(mapId, hexId, status, score, { email });
         if (response.success) return { ok: true };
-      } catch (e) {}
+        if (!response.offline) {
+          console.error('API updateProgress error:', response.error);
+          return { ok: false, error: response.error || 'Failed to save progress' };
+        }
+      }
+      enqueueWrite({ kind: 'progress', email, mapId, hexId, status, score });
+      saveLocalProgress(record);
+      return { ok: true, queued: true };
     }
-    
-    const stored = localStorage.getItem(STORAGE_KEY_PROGRESS);
-    const progress: StudentProgressRecord[] = stored ? JSON.parse(stored) : [];
-    const filtered = progress.filter(p => !(p.mapId === mapId && p.hexId === hexId));
-    filtered.push({ email: 'local', mapId, hexId, status, score, completedAt: new Date().toISOString() });
-    localStorage.setItem(STORAGE_KEY_PROGRESS, JSON.stringify(filtered));
+
+    saveLocalProgress(record);
     return { ok: true };
   },
 
-  getProgressForUserAndMap: async (mapId: string): Promise<Record<string, Partial<StudentProgressRecord>>> => {
+  getProgressForUserAndMap: async (mapId: string, email?: string): Promise<Record<string, Partial<StudentProgressRecord>>> => {
     if (useApi()) {
       try {
         const response = await apiService.getProgress(mapId);
-        if (response.success) return response.progress || {};
+        if (response.success) {
+          // Updates still waiting in the outbox are newer than what the backend has
+          const result = { ...(response.progress || {}) };
+          getOutbox().forEach(entry => {
+            if (entry.kind === 'progress' && entry.mapId === mapId && (!email || entry.email === email)) {
+              result[entry.hexId] = { status: entry.status, score: entry.score, completedAt: entry.createdAt };
+            }
+          });
+          return result;
+        }
       } catch (e) {}
     }
     
     const stored = localStorage.getItem(STORAGE_KEY_PROGRESS);
     const allProgress: StudentProgressRecord[] = stored ? JSON.parse(stored) : [];
     const result: Record<string, Partial<StudentProgressRecord>> = {};
-    allProgress.filter(p => p.mapId === mapId).forEach(p => {
+    // Records saved before progress carried the user's email were stored as 'local'
+    allProgress.filter(p => p.mapId === mapId && (!email || p.email === email || p.email === 'local')).forEach(p => {
       result[p.hexId] = { status: p.status, score: p.score, completedAt: p.completedAt };
     });
     return result;
@@ -270,9 +450,28 @@ export const storageService = {
       { templateId: 't1', name: 'Lesson', icon: '📚', defaultType: 'core', defaultLabel: 'Lesson' },
       { templateId: 't2', name: 'Activity', icon: '✏️', defaultType: 'ext', defaultLabel: 'Activity' },
       { templateId: 't3', name: 'Quiz', icon: '📝', defaultType: 'student', defaultLabel: 'Quiz', defaultSize: 'small' },
+      ...getLocalTemplates()
     ];
   },
 
+  saveHexTemplate: async (template: HexTemplate): Promise<HexTemplate> => {
+    if (useApi()) {
+      try {
+        const response = await apiService.saveTemplate(template);
+        if (response.success && response.template) return response.template;
+        throw new Error(response.error || 'Failed to save template');
+      } catch (e) {
+        console.error('API saveHexTemplate error:', e);
+        throw e;
+      }
+    }
+
+    const templates = getLocalTemplates().filter(t => t.templateId !== template.templateId);
+    templates.push(template);
+    localStorage.setItem(STORAGE_KEY_TEMPLATES, JSON.stringify(templates));
+    return template;
+  },
+
   getCurriculumConfig: async (): Promise<CurriculumConfig> => {
     if (useApi()) {
       try {
@@ -343,15 +542,44 @@ export const storageService = {
 
   // EXPORT
   exportMapToDoc: async (map: LearningMap): Promise<string> => {
-    const content = 'MAP: ' + map.title + '\n\nHEXES:\n' + map.hexes.map(h => '[' + h.type + '] ' + h.label).join('\n');
+    const regionTitles = new Map((map.regions || []).map(r => [r.id, r.title]));
+    const hexBlock = (h: Hex) => {
+      const lines = ['[' + h.type + '] ' + h.label];
+      if (h.regionId && regionTitles.has(h.regionId)) lines.push('  Region: ' + regionTitles.get(h.regionId));
+      const details = [
+        h.estimatedMinutes ? h.estimatedMinutes + ' min' : '',
+        h.dueDate ? 'due ' + h.dueDate : ''
+      ].filter(Boolean);
+      if (details.length) lines.push('  ' + details.join(', '));
+      if (h.description) lines.push('  ' + h.description.replace(/\n/g, '\n  '));
+      if (h.instructions) lines.push('  Instructions: ' + h.instructions.replace(/\n/g, '\n  '));
+      (h.resources || []).forEach(r => lines.push('  - ' + r.type + ': ' + r.title + ' <' + r.url + '>'));
+      return lines.join('\n');
+    };
+    const content = 'MAP: ' + map.title + '\n\nHEXES:\n' + map.hexes.map(hexBlock).join('\n\n');
     return URL.createObjectURL(new Blob([content], { type: 'text/plain' }));
   },
 
   exportMapToSheet: async (map: LearningMap): Promise<string> => {
-    const esc = (f: any) => { const s = String(f ?? ''); return s.includes(',') ? '"' + s + '"' : s; };
-    const csv = ['ID,Label,Type,SBAR,Standards', ...map.hexes.map(h => 
-      [h.id, esc(h.label), h.type, esc(h.curriculum?.sbarDomains?.join('; ')), esc(h.curriculum?.standards?.join('; '))].join(',')
-    )].join('\n');
+    const esc = (f: any) => {
+      const s = String(f ?? '');
+      return /[",\n]/.test(s) ? '"' + s.replace(/"/g, '""') + '"' : s;
+    };
+    const regionTitles = new Map((map.regions || []).map(r => [r.id, r.title]));
+    const header = 'ID,Label,Type,Region,SBAR,Standards,Description,Instructions,Minutes,Due Date,Resources';
+    const csv = [header, ...map.hexes.map(h => [
+      h.id,
+      esc(h.label),
+      h.type,
+      esc(regionTitles.get(h.regionId)),
+      esc(h.curriculum?.sbarDomains?.join('; ')),
+      esc(h.curriculum?.standards?.join('; ')),
+      esc(h.description),
+      esc(h.instructions),
+      h.estimatedMinutes ?? '',
+      h.dueDate || '',
+      esc((h.resources || []).map(r => r.type + ': ' + r.title + ' <' + r.url + '>').join('; '))
+    ].join(','))].join('\n');
     return URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
   },
 
@@ -0,0 +1,37 @@
+/**
+ * Hex Templates - Conversions between templates and hexes
+ *
+ * Templates carry defaults only; everything positional or per-map
+ * (id, cell, connections, progress) is filled in when a hex is created.
+ */
+
+import { Hex, HexTemplate } from '../types';
+import { generateHexId } from './ids';
+
+export function createHexFromTemplate(template: HexTemplate, row: number, col: number): Hex {
+  return {
+    id: generateHexId(),
+    label: template.defaultLabel || template.name,
+    icon: template.icon || '📚',
+    type: template.defaultType || 'core',
+    size: template.defaultSize,
+    status: template.defaultStatus,
+    curriculum: template.defaultCurriculum ? JSON.parse(JSON.stringify(template.defaultCurriculum)) : undefined,
+    row,
+    col,
+    progress: 'not_started'
+  };
+}
+
+export function createTemplateFromHex(hex: Hex, name: string): HexTemplate {
+  return {
+    templateId: 'tpl-' + Date.now(),
+    name,
+    icon: hex.icon,
+    defaultType: hex.type,
+    defaultLabel: hex.label,
+    defaultSize: hex.size,
+    defaultStatus: hex.status,
+    defaultCurriculum: hex.curriculum ? JSON.parse(JSON.stringify(hex.curriculum)) : undefined
+  };
+}
@@ -0,0 +1,8 @@
+/**
+ * URLs - Checks for author-supplied links
+ *
+ * Links in hex content and resources are typed by teachers, so only web and
+ * mail links are followed; anything else (javascript:, data:) is ignored.
+ */
+
+export const isSafeUrl = (url: string | undefined) => !!url && /^(https?:|mailto:)/i.test(url.trim());
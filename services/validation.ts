@@ -0,0 +1,228 @@
+/**
+ * Map Validation - Structural checks on the connection graph
+ *
+ * Finds dangling edges, branch rules that don't parse, cycles among default
+ * connections, orphan and unreachable hexes, and hexes sharing a grid cell. Each issue carries
+ * enough data for applyFix() to repair it in one step.
+ */
+
+import { Hex, LearningMap } from '../types';
+import { cellKey, findNearestFreeCell } from './grid';
+import { getRuleError } from './rules';
+
+export type ValidationIssueKind = 'dangling_edge' | 'invalid_rule' | 'cycle' | 'orphan' | 'unreachable' | 'duplicate_position';
+
+export interface ValidationIssue {
+  id: string;
+  kind: ValidationIssueKind;
+  severity: 'error' | 'warning';
+  message: string;
+  hexIds: string[];
+  fixLabel: string;
+  // Edge the fix acts on (dangling edge, invalid rule, cycle-closing edge)
+  edge?: { sourceId: string; targetId: string };
+}
+
+const hexName = (hex: Hex | undefined, fallbackId: string) => hex ? `"${hex.label}"` : fallbackId;
+
+export function validateMap(map: LearningMap): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  const byId = new Map(map.hexes.map(h => [h.id, h]));
+
+  // --- Dangling edges ---
+  map.hexes.forEach(hex => {
+    (hex.connections || []).forEach(conn => {
+      if (!byId.has(conn.targetHexId)) {
+        issues.push({
+          id: `dangling:${hex.id}:${conn.targetHexId}`,
+          kind: 'dangling_edge',
+          severity: 'error',
+          message: `${hexName(hex, hex.id)} connects to missing hex ${conn.targetHexId}`,
+          hexIds: [hex.id],
+          fixLabel: 'Remove connection',
+          edge: { sourceId: hex.id, targetId: conn.targetHexId },
+        });
+      }
+    });
+  });
+
+  // --- Branch rules that don't parse (the branch stays locked for everyone) ---
+  map.hexes.forEach(hex => {
+    (hex.connections || []).forEach(conn => {
+      const error = getRuleError(conn);
+      if (!error || !byId.has(conn.targetHexId)) return;
+      issues.push({
+        id: `rule:${hex.id}:${conn.targetHexId}`,
+        kind: 'invalid_rule',
+        severity: 'error',
+        message: `${hexName(hex, hex.id)} → ${hexName(byId.get(conn.targetHexId), conn.targetHexId)} has an invalid branch rule "${conn.label}": ${error}`,
+        hexIds: [hex.id],
+        fixLabel: 'Remove branch',
+        edge: { sourceId: hex.id, targetId: conn.targetHexId },
+      });
+    });
+  });
+
+  // --- Cycles among default connections ---
+  const WHITE = 0, GREY = 1, BLACK = 2;
+  const color: Record<string, number> = {};
+  const stack: string[] = [];
+
+  const visit = (id: string) => {
+    color[id] = GREY;
+    stack.push(id);
+    const hex = byId.get(id);
+    (hex?.connections || []).forEach(conn => {
+      if (conn.type !== 'default' || !byId.has(conn.targetHexId)) return;
+      const state = color[conn.targetHexId] || WHITE;
+      if (state === GREY) {
+        const cycle = stack.slice(stack.indexOf(conn.targetHexId));
+        issues.push({
+          id: `cycle:${id}:${conn.targetHexId}`,
+          kind: 'cycle',
+          severity: 'error',
+          message: `Default connections form a loop: ${[...cycle, conn.targetHexId].map(h => hexName(byId.get(h), h)).join(' → ')}`,
+          hexIds: cycle,
+          fixLabel: 'Remove closing connection',
+          edge: { sourceId: id, targetId: conn.targetHexId },
+        });
+      } else if (state === WHITE) {
+        visit(conn.targetHexId);
+      }
+    });
+    stack.pop();
+    color[id] = BLACK;
+  };
+  map.hexes.forEach(h => { if (!color[h.id]) visit(h.id); });
+
+  // --- Orphans and unreachable hexes (only meaningful once the map has connections) ---
+  const hasIncoming = new Set<string>();
+  const hasOutgoing = new Set<string>();
+  map.hexes.forEach(hex => {
+    (hex.connections || []).forEach(conn => {
+      if (!byId.has(conn.targetHexId) || conn.targetHexId === hex.id) return;
+      hasOutgoing.add(hex.id);
+      hasIncoming.add(conn.targetHexId);
+    });
+  });
+
+  if (hasOutgoing.size > 0) {
+    map.hexes.forEach(hex => {
+      if (!hasIncoming.has(hex.id) && !hasOutgoing.has(hex.id)) {
+        issues.push({
+          id: `orphan:${hex.id}`,
+          kind: 'orphan',
+          severity: 'warning',
+          message: `${hexName(hex, hex.id)} is not connected to any other hex`,
+          hexIds: [hex.id],
+          fixLabel: 'Link from nearest hex',
+        });
+      }
+    });
+
+    // Reachability from entry hexes (no incoming connections)
+    const reached = new Set<string>();
+    const queue = map.hexes.filter(h => !hasIncoming.has(h.id)).map(h => h.id);
+    queue.forEach(id => reached.add(id));
+    while (queue.length) {
+      const hex = byId.get(queue.shift()!);
+      (hex?.connections || []).forEach(conn => {
+        if (byId.has(conn.targetHexId) && !reached.has(conn.targetHexId)) {
+          reached.add(conn.targetHexId);
+          queue.push(conn.targetHexId);
+        }
+      });
+    }
+    map.hexes.forEach(hex => {
+      if (!reached.has(hex.id)) {
+        issues.push({
+          id: `unreachable:${hex.id}`,
+          kind: 'unreachable',
+          severity: 'error',
+          message: `${hexName(hex, hex.id)} can't be reached from any starting hex`,
+          hexIds: [hex.id],
+          fixLabel: 'Make it a starting hex',
+        });
+      }
+    });
+  }
+
+  // --- Duplicate grid positions ---
+  const cells: Record<string, Hex[]> = {};
+  map.hexes.forEach(hex => { (cells[cellKey(hex.row, hex.col)] ||= []).push(hex); });
+  Object.entries(cells).forEach(([key, hexes]) => {
+    if (hexes.length < 2) return;
+    issues.push({
+      id: `duplicate:${key}`,
+      kind: 'duplicate_position',
+      severity: 'warning',
+      message: `${hexes.map(h => hexName(h, h.id)).join(', ')} share row ${hexes[0].row}, col ${hexes[0].col}`,
+      hexIds: hexes.map(h => h.id),
+      fixLabel: 'Move to free cells',
+    });
+  });
+
+  return issues;
+}
+
+export function applyFix(map: LearningMap, issue: ValidationIssue): LearningMap {
+  const removeEdge = (sourceId: string, targetId: string) => map.hexes.map(h =>
+    h.id === sourceId ? { ...h, connections: (h.connections || []).filter(c => c.targetHexId !== targetId) } : h
+  );
+
+  switch (issue.kind) {
+    case 'dangling_edge':
+    case 'invalid_rule': // Clearing the rule instead would open the branch to every student
+    case 'cycle':
+      if (!issue.edge) return map;
+      return { ...map, hexes: removeEdge(issue.edge.sourceId, issue.edge.targetId) };
+
+    case 'unreachable': {
+      const targetId = issue.hexIds[0];
+      return {
+        ...map,
+        hexes: map.hexes.map(h => ({
+          ...h,
+          connections: (h.connections || []).filter(c => c.targetHexId !== targetId)
+        }))
+      };
+    }
+
+    case 'orphan': {
+      const orphan = map.hexes.find(h => h.id === issue.hexIds[0]);
+      if (!orphan) return map;
+      // Prefer the closest hex above it on the grid, then anything closest
+      const candidates = map.hexes
+        .filter(h => h.id !== orphan.id)
+        .sort((a, b) => {
+          const aAbove = a.row <= orphan.row ? 0 : 1;
+          const bAbove = b.row <= orphan.row ? 0 : 1;
+          if (aAbove !== bAbove) return aAbove - bAbove;
+          const dist = (h: Hex) => Math.abs(h.row - orphan.row) + Math.abs(h.col - orphan.col);
+          return dist(a) - dist(b);
+        });
+      const source = candidates[0];
+      if (!source) return map;
+      return {
+        ...map,
+        hexes: map.hexes.map(h => h.id === source.id
+          ? { ...h, connections: [...(h.connections || []), { targetHexId: orphan.id, type: 'default' as const }] }
+          : h)
+      };
+    }
+
+    case 'duplicate_position': {
+      const movers = new Set(issue.hexIds.slice(1));
+      const occupied = new Set(map.hexes.filter(h => !movers.has(h.id)).map(h => cellKey(h.row, h.col)));
+      return {
+        ...map,
+        hexes: map.hexes.map(h => {
+          if (!movers.has(h.id)) return h;
+          const cell = findNearestFreeCell(occupied, h.row, h.col);
+          occupied.add(cellKey(cell.row, cell.col));
+          return { ...h, row: cell.row, col: cell.col };
+        })
+      };
+    }
+  }
+}
@@ -7,10 +7,20 @@ export type HexProgress = 'not_started' | 'in_progress' | 'completed' | 'mastere
 // New: Connection Types for branching logic
 export type ConnectionType = 'default' | 'conditional' | 'remedial' | 'extension';
 
+// Typed branch rule, parsed from the connection label (see services/rules.ts)
+export type ScoreOperator = '<' | '<=' | '>' | '>=' | '=';
+
+export type BranchRule =
+  | { kind: 'score'; op: ScoreOperator; value: number } // value is a percentage
+  | { kind: 'progress'; status: HexProgress }
+  | { kind: 'and'; rules: BranchRule[] }
+  | { kind: 'or'; rules: BranchRule[] };
+
 export interface HexConnection {
   targetHexId: string;
   type: ConnectionType;
   label?: string; // Optional logic text e.g. "Score > 80%"
+  rule?: BranchRule; // Parsed from label for conditional/remedial/extension
 }
 
 export interface HexCurriculum {
@@ -30,6 +40,15 @@ export interface HexCurriculum {
   };
 }
 
+export type HexResourceType = 'video' | 'doc' | 'worksheet' | 'tool';
+
+export interface HexResource {
+  id: string;
+  type: HexResourceType;
+  title: string;
+  url: string;
+}
+
 export interface Hex {
   id: string;
   label: string;
@@ -43,6 +62,16 @@ export interface Hex {
   curriculum?: HexCurriculum;
   progress?: HexProgress;
   connections?: HexConnection[]; // New: Adjacency list
+  pinned?: boolean; // Auto-arrange leaves pinned hexes where they are
+
+  // Student-facing content
+  description?: string; // Markdown
+  instructions?: string;
+  estimatedMinutes?: number;
+  dueDate?: string; // YYYY-MM-DD
+  resources?: HexResource[];
+
+  regionId?: string; // MapRegion this hex is grouped into
 }
 
 export interface HexTemplate {
@@ -56,6 +85,45 @@ export interface HexTemplate {
   defaultCurriculum?: HexCurriculum;
 }
 
+// What happens when a hex is dropped onto an occupied cell
+export type CollisionMode = 'swap' | 'push' | 'refuse';
+
+// Map filter builder (see services/filters.ts)
+export type FilterField =
+  | 'type' | 'sbar' | 'standard' | 'competency' | 'atlSkill' | 'ubdStage'
+  | 'progress' | 'lock' | 'linked' | 'region';
+
+export interface FilterCondition {
+  id: string;
+  field: FilterField;
+  values: string[]; // Matches a hex that has any of these
+}
+
+export interface HexFilter {
+  combinator: 'and' | 'or';
+  conditions: FilterCondition[];
+  display: 'dim' | 'hide'; // What happens to hexes that don't match
+}
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  filter: HexFilter;
+}
+
+export interface MapSettings {
+  collisionMode?: CollisionMode;
+  filterPresets?: FilterPreset[];
+}
+
+// Labelled, coloured group of hexes drawn as a band behind them (e.g. "Week 1")
+export interface MapRegion {
+  id: string;
+  title: string;
+  color: string; // CSS colour
+  description?: string;
+}
+
 export interface MapMeta {
   createdAt?: string;
   createdBy?: string;
@@ -63,6 +131,8 @@ export interface MapMeta {
   updatedBy?: string;
   description?: string;
   basedOnMapId?: string;
+  basedOnRevision?: number; // Set when the map was branched from a revision of basedOnMapId
+  revision?: number; // Bumped on every save; a save based on an older revision is a conflict
 }
 
 export interface LearningMap {
@@ -86,6 +156,17 @@ export interface LearningMap {
     udl_notes?: string;
   };
   meta?: MapMeta;
+  settings?: MapSettings;
+  regions?: MapRegion[];
+}
+
+// A map as it was saved, kept in the map's revision log (see services/revisions.ts)
+export interface MapRevision {
+  mapId: string;
+  revision: number;
+  savedAt: string;
+  savedBy?: string;
+  map: LearningMap;
 }
 
 // Updated to match CourseService.gs